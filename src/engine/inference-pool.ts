@@ -0,0 +1,272 @@
+import { Worker } from 'node:worker_threads';
+import type { InferenceResult } from './inference-runner.js';
+import type { InferenceBackend } from './model-loader.js';
+
+/** Model settings each worker loads its own session from. */
+export interface InferenceWorkerData {
+  modelId: string;
+  quantized: boolean;
+  backend: InferenceBackend;
+  windowOverlap: number;
+}
+
+export interface InferencePoolOptions {
+  size: number;
+  /** Requests waiting for a worker before new ones are rejected. */
+  maxQueueDepth: number;
+  /** Most texts sent to a worker in one call. */
+  maxBatchSize: number;
+  /** How long a worker waits for more small texts before running a partial batch. */
+  batchWindowMs: number;
+  /** Texts longer than this always run alone. */
+  maxBatchChars: number;
+}
+
+export type WorkerRequest = { type: 'run'; texts: string[] };
+
+export type WorkerResponse =
+  | { type: 'ready' }
+  | { type: 'result'; results: InferenceResult[] }
+  | { type: 'error'; message: string };
+
+/** Raised when the inference queue is full; clients should retry later. */
+export class InferenceQueueFullError extends Error {
+  readonly statusCode = 503;
+
+  constructor(maxQueueDepth: number) {
+    super(`Inference queue is full (${maxQueueDepth} pending requests)`);
+    this.name = 'InferenceQueueFullError';
+  }
+}
+
+interface QueuedRequest {
+  text: string;
+  resolve: (result: InferenceResult) => void;
+  reject: (error: unknown) => void;
+  detach: () => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  ready: boolean;
+  batch: QueuedRequest[] | null;
+}
+
+const DEFAULT_OPTIONS: InferencePoolOptions = {
+  size: 1,
+  maxQueueDepth: 256,
+  maxBatchSize: 8,
+  batchWindowMs: 5,
+  maxBatchChars: 2000,
+};
+
+const RUNNING_TS_SOURCE = import.meta.url.endsWith('.ts');
+const WORKER_URL = new URL(`./inference-worker${RUNNING_TS_SOURCE ? '.ts' : '.js'}`, import.meta.url);
+
+function createWorker(workerData: InferenceWorkerData): Worker {
+  if (!RUNNING_TS_SOURCE) {
+    return new Worker(WORKER_URL, { workerData });
+  }
+  // Under tsx the loader is not inherited by workers, so register it before importing the source
+  const bootstrap = `import('tsx/esm/api').then(({ register }) => { register(); return import(${JSON.stringify(WORKER_URL.href)}); })`;
+  return new Worker(bootstrap, { eval: true, workerData });
+}
+
+/**
+ * Runs inference on worker threads, each holding its own model session.
+ * Queued texts are micro-batched so concurrent small prompts share one call.
+ */
+export class InferencePool {
+  private workers: PoolWorker[] = [];
+  private queue: QueuedRequest[] = [];
+  private batchTimer: NodeJS.Timeout | null = null;
+  private closed = false;
+  private workerData: InferenceWorkerData;
+  private options: InferencePoolOptions;
+
+  private constructor(workerData: InferenceWorkerData, options: InferencePoolOptions) {
+    this.workerData = workerData;
+    this.options = options;
+  }
+
+  /** Starts the workers and resolves once every model session is loaded. */
+  static async create(
+    workerData: InferenceWorkerData,
+    options: Partial<InferencePoolOptions> = {}
+  ): Promise<InferencePool> {
+    const pool = new InferencePool(workerData, { ...DEFAULT_OPTIONS, ...options });
+    console.log(`[INFO] Starting ${pool.options.size} inference worker(s)`);
+
+    try {
+      await Promise.all(Array.from({ length: pool.options.size }, () => pool.spawnWorker()));
+    } catch (error) {
+      await pool.close();
+      throw error;
+    }
+    return pool;
+  }
+
+  get queueDepth(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Queues a text for inference. Aborting the signal drops the request
+   * if it has not reached a worker yet.
+   */
+  run(text: string, signal?: AbortSignal): Promise<InferenceResult> {
+    return new Promise((resolve, reject) => {
+      if (this.closed) {
+        reject(new Error('Inference pool is closed'));
+        return;
+      }
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      if (this.queue.length >= this.options.maxQueueDepth) {
+        reject(new InferenceQueueFullError(this.options.maxQueueDepth));
+        return;
+      }
+
+      const onAbort = () => {
+        const index = this.queue.indexOf(request);
+        if (index !== -1) {
+          this.queue.splice(index, 1);
+          reject(signal?.reason);
+        }
+      };
+      const request: QueuedRequest = {
+        text,
+        resolve,
+        reject,
+        detach: () => signal?.removeEventListener('abort', onAbort),
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.queue.push(request);
+      this.schedule();
+    });
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    if (this.batchTimer) {
+      clearTimeout(this.batchTimer);
+      this.batchTimer = null;
+    }
+
+    const pending = [...this.queue, ...this.workers.flatMap((w) => w.batch ?? [])];
+    this.queue = [];
+    for (const request of pending) {
+      request.detach();
+      request.reject(new Error('Inference pool is closed'));
+    }
+
+    await Promise.all(this.workers.map(({ worker }) => worker.terminate()));
+    this.workers = [];
+  }
+
+  private spawnWorker(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const worker = createWorker(this.workerData);
+      const entry: PoolWorker = { worker, ready: false, batch: null };
+      this.workers.push(entry);
+
+      worker.on('message', (message: WorkerResponse) => {
+        if (message.type === 'ready') {
+          entry.ready = true;
+          resolve();
+          this.dispatch();
+          return;
+        }
+        this.settleBatch(entry, message);
+      });
+
+      worker.on('error', (error) => {
+        if (!entry.ready) {
+          reject(error);
+          return;
+        }
+        console.error('[ERROR] Inference worker crashed:', error);
+      });
+
+      worker.on('exit', (code) => {
+        this.workers = this.workers.filter((w) => w !== entry);
+        for (const request of entry.batch ?? []) {
+          request.detach();
+          request.reject(new Error(`Inference worker exited with code ${code}`));
+        }
+        entry.batch = null;
+
+        if (!entry.ready) {
+          reject(new Error(`Inference worker exited with code ${code} before loading the model`));
+        } else if (!this.closed) {
+          console.warn(`[WARN] Inference worker exited with code ${code} - restarting`);
+          this.spawnWorker().catch((error) => {
+            console.error('[ERROR] Failed to restart inference worker:', error);
+          });
+        }
+      });
+    });
+  }
+
+  private settleBatch(entry: PoolWorker, message: WorkerResponse): void {
+    const batch = entry.batch ?? [];
+    entry.batch = null;
+
+    batch.forEach((request, i) => {
+      request.detach();
+      if (message.type === 'result') {
+        request.resolve(message.results[i] ?? { entities: [], processingTimeMs: 0 });
+      } else {
+        request.reject(new Error(message.type === 'error' ? message.message : 'Unexpected worker response'));
+      }
+    });
+
+    this.dispatch();
+  }
+
+  /** Dispatches right away once a full batch or a large text is waiting, else after the batch window. */
+  private schedule(): void {
+    const head = this.queue[0];
+    const batchReady =
+      this.queue.length >= this.options.maxBatchSize ||
+      (head !== undefined && head.text.length > this.options.maxBatchChars);
+
+    if (batchReady) {
+      this.dispatch();
+    } else if (!this.batchTimer) {
+      this.batchTimer = setTimeout(() => {
+        this.batchTimer = null;
+        this.dispatch();
+      }, this.options.batchWindowMs);
+    }
+  }
+
+  private dispatch(): void {
+    for (const entry of this.workers) {
+      if (this.queue.length === 0) return;
+      if (!entry.ready || entry.batch) continue;
+
+      const batch = this.takeBatch();
+      entry.batch = batch;
+      const request: WorkerRequest = { type: 'run', texts: batch.map((r) => r.text) };
+      entry.worker.postMessage(request);
+    }
+  }
+
+  /** Takes the head of the queue plus any small texts queued directly behind it. */
+  private takeBatch(): QueuedRequest[] {
+    const isSmall = (request: QueuedRequest) => request.text.length <= this.options.maxBatchChars;
+
+    const first = this.queue.shift()!;
+    const batch = [first];
+    if (!isSmall(first)) return batch;
+
+    while (batch.length < this.options.maxBatchSize && this.queue[0] && isSmall(this.queue[0])) {
+      batch.push(this.queue.shift()!);
+    }
+    return batch;
+  }
+}
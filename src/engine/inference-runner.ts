@@ -1,25 +1,9 @@
-import type { ModelSession } from './model-loader.js';
-import type { PiiEntity, PiiEntityType } from '../shared/types/pii.types.js';
-
-const LABEL_TO_PII_TYPE: Record<string, PiiEntityType> = {
-  'ACCOUNTNUM': 'BANK_ACCOUNT',
-  'BUILDINGNUM': 'ADDRESS',
-  'CITY': 'ADDRESS',
-  'CREDITCARDNUMBER': 'CREDIT_CARD',
-  'DATEOFBIRTH': 'DATE_OF_BIRTH',
-  'DRIVERLICENSENUM': 'DRIVER_LICENSE',
-  'EMAIL': 'EMAIL',
-  'GIVENNAME': 'PERSON',
-  'IDCARDNUM': 'NATIONAL_ID',
-  'PASSWORD': 'PASSWORD',
-  'SOCIALNUM': 'SSN',
-  'STREET': 'ADDRESS',
-  'SURNAME': 'PERSON',
-  'TAXNUM': 'TAX_ID',
-  'TELEPHONENUM': 'PHONE',
-  'USERNAME': 'USERNAME',
-  'ZIPCODE': 'ADDRESS',
-};
+import type { ModelSession, PipelineModelSession } from './model-loader.js';
+import { runOnnxInferenceBatch } from './onnx-runner.js';
+import type { TokenEncoding } from './offset-tokenizer.js';
+import type { PiiEntity } from '../shared/types/pii.types.js';
+import { LABEL_TO_PII_TYPE, parseLabel } from './labels.js';
+import { mergeWindowEntities, planWindows } from './windowing.js';
 
 export interface InferenceResult {
   entities: PiiEntity[];
@@ -33,19 +17,86 @@ interface RawToken {
   index: number;
 }
 
+/** Re-tokenizing a window's text can yield a few more pieces than it held (e.g. a leading word marker). */
+const RETOKENIZE_MARGIN = 8;
+
+/** Runs token classification on the configured backend. */
 export async function runInference(
   modelSession: ModelSession,
   text: string
 ): Promise<InferenceResult> {
+  const [result] = await runInferenceBatch(modelSession, [text]);
+  return result!;
+}
+
+/**
+ * Classifies several texts together. Texts that fit the model's context share
+ * a single pipeline call; longer ones are classified window by window.
+ */
+export async function runInferenceBatch(
+  modelSession: ModelSession,
+  texts: string[]
+): Promise<InferenceResult[]> {
+  if (modelSession.backend === 'onnx') {
+    return runOnnxInferenceBatch(modelSession, texts);
+  }
+
   const startTime = Date.now();
+  const { tokenizer } = modelSession;
+  const results: PiiEntity[][] = [];
+  const batched: number[] = [];
+
+  for (const [i, text] of texts.entries()) {
+    const encoding = tokenizer.encode(text);
+    if (encoding.ids.length <= tokenizer.maxLength) {
+      batched.push(i);
+    } else {
+      results[i] = await runPipelineWindows(modelSession, text, encoding);
+    }
+  }
 
-  const tokens = (await modelSession.pipeline(text)) as RawToken[];
-  const entities = groupAndLocateEntities(tokens, text);
+  if (batched.length > 0) {
+    const outputs = (await modelSession.pipeline(batched.map((i) => texts[i]!))) as RawToken[][];
+    batched.forEach((textIdx, outputIdx) => {
+      results[textIdx] = groupAndLocateEntities(outputs[outputIdx] ?? [], texts[textIdx]!);
+    });
+  }
 
-  return {
-    entities,
-    processingTimeMs: Date.now() - startTime,
-  };
+  const processingTimeMs = Date.now() - startTime;
+  return texts.map((_, i) => ({ entities: results[i] ?? [], processingTimeMs }));
+}
+
+/**
+ * The pipeline truncates to the model's context, so longer inputs are cut
+ * into overlapping character ranges and each is classified separately.
+ */
+async function runPipelineWindows(
+  modelSession: PipelineModelSession,
+  text: string,
+  encoding: TokenEncoding
+): Promise<PiiEntity[]> {
+  const { tokenizer } = modelSession;
+  const contentOffsets = encoding.offsets.filter((_, i) => !encoding.specialTokensMask[i]);
+  const specialCount = encoding.ids.length - contentOffsets.length;
+  const windows = planWindows(
+    contentOffsets,
+    tokenizer.maxLength - specialCount - RETOKENIZE_MARGIN,
+    modelSession.windowOverlap
+  );
+
+  const entities: PiiEntity[] = [];
+  for (const window of windows) {
+    const charStart = contentOffsets[window.start]![0];
+    const charEnd = contentOffsets[window.end - 1]![1];
+    const windowText = text.slice(charStart, charEnd);
+
+    const tokens = (await modelSession.pipeline(windowText)) as RawToken[];
+    for (const entity of groupAndLocateEntities(tokens, windowText)) {
+      entities.push({ ...entity, start: entity.start + charStart, end: entity.end + charStart });
+    }
+  }
+
+  return mergeWindowEntities(entities, text);
 }
 
 function groupAndLocateEntities(tokens: RawToken[], text: string): PiiEntity[] {
@@ -95,15 +146,6 @@ function groupAndLocateEntities(tokens: RawToken[], text: string): PiiEntity[] {
   return entities;
 }
 
-function parseLabel(entity: string): string | null {
-  if (!entity || entity === 'O') return null;
-  // Strip B-/I- prefix
-  if (entity.startsWith('B-') || entity.startsWith('I-')) {
-    return entity.slice(2);
-  }
-  return entity;
-}
-
 function finalizeGroup(
   group: { label: string; words: string[]; scores: number[] },
   text: string,
@@ -136,6 +178,7 @@ function finalizeGroup(
     start: pos[0],
     end: pos[1],
     confidence: group.scores.reduce((a, b) => a + b, 0) / group.scores.length,
+    recognizer: 'model',
   };
 }
 
@@ -0,0 +1,33 @@
+import { parentPort, workerData } from 'node:worker_threads';
+import { loadModel } from './model-loader.js';
+import { runInferenceBatch } from './inference-runner.js';
+import type { InferenceWorkerData, WorkerRequest, WorkerResponse } from './inference-pool.js';
+
+/** Worker thread entry point: loads a model session and serves batches from the pool. */
+async function start(): Promise<void> {
+  if (!parentPort) {
+    throw new Error('inference-worker must be started as a worker thread');
+  }
+  const port = parentPort;
+  const { modelId, quantized, backend, windowOverlap } = workerData as InferenceWorkerData;
+
+  const modelSession = await loadModel(modelId, { quantized, backend, windowOverlap });
+
+  port.on('message', async (request: WorkerRequest) => {
+    let response: WorkerResponse;
+    try {
+      response = { type: 'result', results: await runInferenceBatch(modelSession, request.texts) };
+    } catch (error) {
+      response = { type: 'error', message: error instanceof Error ? error.message : String(error) };
+    }
+    port.postMessage(response);
+  });
+
+  const ready: WorkerResponse = { type: 'ready' };
+  port.postMessage(ready);
+}
+
+start().catch((error) => {
+  console.error('[ERROR] Inference worker failed to start:', error);
+  process.exit(1);
+});
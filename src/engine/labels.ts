@@ -0,0 +1,36 @@
+import type { PiiEntityType } from '../shared/types/pii.types.js';
+
+/** Piiranha label set mapped onto the service's entity taxonomy. */
+export const LABEL_TO_PII_TYPE: Record<string, PiiEntityType> = {
+  'ACCOUNTNUM': 'BANK_ACCOUNT',
+  'BUILDINGNUM': 'ADDRESS',
+  'CITY': 'ADDRESS',
+  'CREDITCARDNUMBER': 'CREDIT_CARD',
+  'DATEOFBIRTH': 'DATE_OF_BIRTH',
+  'DRIVERLICENSENUM': 'DRIVER_LICENSE',
+  'EMAIL': 'EMAIL',
+  'GIVENNAME': 'PERSON',
+  'IDCARDNUM': 'NATIONAL_ID',
+  'PASSWORD': 'PASSWORD',
+  'SOCIALNUM': 'SSN',
+  'STREET': 'ADDRESS',
+  'SURNAME': 'PERSON',
+  'TAXNUM': 'TAX_ID',
+  'TELEPHONENUM': 'PHONE',
+  'USERNAME': 'USERNAME',
+  'ZIPCODE': 'ADDRESS',
+};
+
+export const MODEL_ENTITY_TYPES: readonly PiiEntityType[] = [
+  ...new Set(Object.values(LABEL_TO_PII_TYPE)),
+];
+
+/** Strips the BIO prefix from a model label; returns null for the outside tag. */
+export function parseLabel(entity: string): string | null {
+  if (!entity || entity === 'O') return null;
+  // Strip B-/I- prefix
+  if (entity.startsWith('B-') || entity.startsWith('I-')) {
+    return entity.slice(2);
+  }
+  return entity;
+}
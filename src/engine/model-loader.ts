@@ -1,44 +1,187 @@
-import { pipeline, TokenClassificationPipeline } from '@xenova/transformers';
+import { mkdir, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import {
+  AutoConfig,
+  pipeline,
+  env as transformersEnv,
+  TokenClassificationPipeline,
+} from '@xenova/transformers';
+import { InferenceSession } from 'onnxruntime-node';
+import { OffsetTokenizer } from './offset-tokenizer.js';
+import { DEFAULT_WINDOW_OVERLAP } from './windowing.js';
 
-export interface ModelSession {
+export type InferenceBackend = 'transformers' | 'onnx';
+
+/** Shared by both backends to split long inputs into model-sized windows. */
+interface WindowedSession {
+  tokenizer: OffsetTokenizer;
+  /** Tokens repeated between consecutive windows. */
+  windowOverlap: number;
+}
+
+/** transformers.js pipeline; entity positions are recovered by string search. */
+export interface PipelineModelSession extends WindowedSession {
+  backend: 'transformers';
   pipeline: TokenClassificationPipeline;
 }
 
-let pipelineInstance: TokenClassificationPipeline | null = null;
+/** Native onnxruntime session with an offset-aware tokenizer. */
+export interface OnnxModelSession extends WindowedSession {
+  backend: 'onnx';
+  session: InferenceSession;
+  id2label: Record<number, string>;
+}
+
+export type ModelSession = PipelineModelSession | OnnxModelSession;
+
+export interface LoadModelOptions {
+  quantized?: boolean;
+  backend?: InferenceBackend;
+  windowOverlap?: number;
+}
+
+let sessionInstance: ModelSession | null = null;
 
 /**
- * Initializes ONNX token classification pipeline.
+ * Initializes the token classification backend.
  * Caches instance for singleton access.
  */
 export async function loadModel(
   modelId: string,
-  options: { quantized?: boolean } = {}
+  options: LoadModelOptions = {}
 ): Promise<ModelSession> {
-  if (pipelineInstance) {
+  if (sessionInstance) {
     console.log('[WARN] Model already loaded');
-    return { pipeline: pipelineInstance };
+    return sessionInstance;
   }
 
+  const backend = options.backend ?? 'transformers';
   console.log(`[INFO] Loading PII detection model: ${modelId}...`);
   const quantized = options.quantized ?? true;
+  const windowOverlap = options.windowOverlap ?? DEFAULT_WINDOW_OVERLAP;
   console.log(`[INFO] Quantized model: ${quantized}`);
+  console.log(`[INFO] Inference backend: ${backend}`);
   console.log('   (First run will download and cache the model)');
   const startTime = Date.now();
 
-  pipelineInstance = await pipeline('token-classification', modelId, {
-    quantized,
-  }) as TokenClassificationPipeline;
+  sessionInstance = backend === 'onnx'
+    ? await loadOnnxSession(modelId, quantized, windowOverlap)
+    : await loadPipelineSession(modelId, quantized, windowOverlap);
 
   const loadTime = Date.now() - startTime;
   console.log(`[OK] Model loaded in ${loadTime}ms`);
 
-  return { pipeline: pipelineInstance };
+  return sessionInstance;
 }
 
 /** Retrieves active model pipeline or throws if uninitialized. */
 export function getModelPipeline(): TokenClassificationPipeline {
-  if (!pipelineInstance) {
+  if (!sessionInstance) {
     throw new Error('Model not loaded. Call loadModel() first.');
   }
-  return pipelineInstance;
+  if (sessionInstance.backend !== 'transformers') {
+    throw new Error(`No transformers pipeline available for the "${sessionInstance.backend}" backend.`);
+  }
+  return sessionInstance.pipeline;
+}
+
+async function loadPipelineSession(
+  modelId: string,
+  quantized: boolean,
+  windowOverlap: number
+): Promise<PipelineModelSession> {
+  const classifier = await pipeline('token-classification', modelId, {
+    quantized,
+  }) as TokenClassificationPipeline;
+
+  return {
+    backend: 'transformers',
+    pipeline: classifier,
+    tokenizer: new OffsetTokenizer(classifier.tokenizer),
+    windowOverlap,
+  };
+}
+
+async function loadOnnxSession(
+  modelId: string,
+  quantized: boolean,
+  windowOverlap: number
+): Promise<OnnxModelSession> {
+  const hubId = useLocalModelPath(modelId);
+
+  const [tokenizer, config, modelPath] = await Promise.all([
+    OffsetTokenizer.load(hubId),
+    AutoConfig.from_pretrained(hubId),
+    resolveOnnxFile(hubId, quantized ? 'model_quantized.onnx' : 'model.onnx'),
+  ]);
+
+  const session = await InferenceSession.create(modelPath, {
+    executionProviders: ['cpu'],
+    graphOptimizationLevel: 'all',
+  });
+
+  const id2label = (config as unknown as { id2label?: Record<number, string> }).id2label;
+  if (!id2label) {
+    throw new Error(`Model config for ${modelId} has no id2label mapping`);
+  }
+
+  return { backend: 'onnx', session, tokenizer, id2label, windowOverlap };
+}
+
+/**
+ * Points transformers.js at a local model directory when given a path.
+ * Returns the identifier to pass to transformers.js loaders.
+ */
+function useLocalModelPath(modelId: string): string {
+  if (!modelId.startsWith('./') && !modelId.startsWith('/')) {
+    return modelId;
+  }
+
+  const absolutePath = path.resolve(modelId);
+  transformersEnv.localModelPath = path.dirname(absolutePath) + '/';
+  transformersEnv.allowLocalModels = true;
+  transformersEnv.allowRemoteModels = false;
+  return path.basename(absolutePath);
+}
+
+/**
+ * Locates the ONNX weights in the local model directory or the
+ * transformers.js cache, downloading them from the hub when missing.
+ */
+async function resolveOnnxFile(modelId: string, fileName: string): Promise<string> {
+  const baseDir = transformersEnv.allowRemoteModels
+    ? transformersEnv.cacheDir
+    : transformersEnv.localModelPath;
+  const filePath = path.join(baseDir, modelId, 'onnx', fileName);
+
+  if (await fileExists(filePath)) {
+    return filePath;
+  }
+
+  if (!transformersEnv.allowRemoteModels) {
+    throw new Error(`ONNX weights not found at ${filePath}`);
+  }
+
+  const remotePath = transformersEnv.remotePathTemplate
+    .replaceAll('{model}', modelId)
+    .replaceAll('{revision}', 'main');
+  const url = `${transformersEnv.remoteHost}${remotePath}onnx/${fileName}`;
+
+  console.log(`[INFO] Downloading ${url}`);
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to download ONNX weights (${response.status}): ${url}`);
+  }
+
+  await mkdir(path.dirname(filePath), { recursive: true });
+  await writeFile(filePath, Buffer.from(await response.arrayBuffer()));
+  return filePath;
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    return (await stat(filePath)).isFile();
+  } catch {
+    return false;
+  }
 }
@@ -0,0 +1,135 @@
+import { AutoTokenizer, type PreTrainedTokenizer } from '@xenova/transformers';
+
+/** Sentencepiece word marker, byte-level BPE space marker and WordPiece continuation prefix. */
+const TOKEN_MARKERS = /^(?:▁|Ġ|##)+/;
+
+const DEFAULT_MAX_LENGTH = 512;
+
+export interface TokenEncoding {
+  ids: number[];
+  /** Character span in the source text for each id; special tokens map to [0, 0]. */
+  offsets: Array<[number, number]>;
+  specialTokensMask: boolean[];
+}
+
+/**
+ * Wraps a transformers.js tokenizer and recovers character offsets by
+ * aligning each produced token against the source text.
+ * transformers.js does not expose `offset_mapping`, so alignment is done here.
+ */
+export class OffsetTokenizer {
+  private tokenizer: PreTrainedTokenizer;
+  private specialIds: Set<number>;
+  readonly maxLength: number;
+
+  constructor(tokenizer: PreTrainedTokenizer) {
+    this.tokenizer = tokenizer;
+    this.specialIds = new Set(tokenizer.all_special_ids);
+
+    const configured = Number(tokenizer.model_max_length);
+    // Tokenizer configs without a limit report a huge sentinel value
+    this.maxLength = Number.isFinite(configured) && configured > 0 && configured <= 8192
+      ? configured
+      : DEFAULT_MAX_LENGTH;
+  }
+
+  static async load(modelId: string): Promise<OffsetTokenizer> {
+    const tokenizer = await AutoTokenizer.from_pretrained(modelId);
+    return new OffsetTokenizer(tokenizer);
+  }
+
+  /** Encodes text with special tokens, returning ids aligned to character offsets. */
+  encode(text: string): TokenEncoding {
+    const ids = this.tokenizer.encode(text) as number[];
+    const offsets: Array<[number, number]> = [];
+    const specialTokensMask: boolean[] = [];
+
+    const pieces = ids.map((id) => (this.specialIds.has(id) ? null : this.tokenToPiece(id)));
+    const contentOffsets = alignPieces(
+      text,
+      pieces.filter((piece): piece is string => piece !== null)
+    );
+
+    let contentIdx = 0;
+    for (const piece of pieces) {
+      if (piece === null) {
+        offsets.push([0, 0]);
+        specialTokensMask.push(true);
+      } else {
+        offsets.push(contentOffsets[contentIdx++] ?? [text.length, text.length]);
+        specialTokensMask.push(false);
+      }
+    }
+
+    return { ids, offsets, specialTokensMask };
+  }
+
+  /** Number of content tokens the text produces, excluding special tokens. */
+  countTokens(text: string): number {
+    const ids = this.tokenizer.encode(text, null, { add_special_tokens: false }) as number[];
+    return ids.length;
+  }
+
+  private tokenToPiece(id: number): string {
+    const token = this.tokenizer.model.vocab[id] ?? '';
+    return token.replace(TOKEN_MARKERS, '');
+  }
+}
+
+/**
+ * Walks the source text left to right, placing each token piece at its next
+ * occurrence. Pieces that cannot be found (unknown tokens, normalization
+ * differences) absorb the gap up to the next piece that does align.
+ */
+function alignPieces(text: string, pieces: string[]): Array<[number, number]> {
+  const offsets: Array<[number, number] | null> = [];
+  const lowerText = text.toLowerCase();
+  let cursor = 0;
+  let pendingGap = false;
+
+  for (const piece of pieces) {
+    // Bare word markers carry no characters of their own
+    if (!piece) {
+      offsets.push([cursor, cursor]);
+      continue;
+    }
+
+    let start = text.indexOf(piece, cursor);
+    if (start === -1) {
+      start = lowerText.indexOf(piece.toLowerCase(), cursor);
+    }
+
+    // Skipped text must be droppable (whitespace/punctuation) unless an unaligned piece covers it
+    const skipsContent = !pendingGap && /[\p{L}\p{N}]/u.test(text.slice(cursor, start));
+    if (start === -1 || skipsContent) {
+      offsets.push(null);
+      pendingGap = true;
+      continue;
+    }
+
+    offsets.push([start, start + piece.length]);
+    cursor = start + piece.length;
+    pendingGap = false;
+  }
+
+  // Back-fill unaligned pieces with the gap between their aligned neighbours
+  for (let i = 0; i < offsets.length; i++) {
+    if (offsets[i] !== null) continue;
+
+    const prevEnd = i > 0 ? offsets[i - 1]![1] : 0;
+    let j = i;
+    while (j < offsets.length && offsets[j] === null) j++;
+    const nextStart = j < offsets.length ? offsets[j]![0] : text.length;
+
+    let gapStart = prevEnd;
+    let gapEnd = nextStart;
+    while (gapStart < gapEnd && /\s/.test(text[gapStart]!)) gapStart++;
+    while (gapEnd > gapStart && /\s/.test(text[gapEnd - 1]!)) gapEnd--;
+
+    for (let k = i; k < j; k++) {
+      offsets[k] = k === i ? [gapStart, gapEnd] : [gapEnd, gapEnd];
+    }
+  }
+
+  return offsets as Array<[number, number]>;
+}
@@ -0,0 +1,238 @@
+import { Tensor } from 'onnxruntime-node';
+import type { OnnxModelSession } from './model-loader.js';
+import type { InferenceResult } from './inference-runner.js';
+import type { TokenEncoding } from './offset-tokenizer.js';
+import type { PiiEntity } from '../shared/types/pii.types.js';
+import { LABEL_TO_PII_TYPE, parseLabel } from './labels.js';
+import { mergeWindowEntities, planWindows } from './windowing.js';
+
+interface TokenPrediction {
+  label: string;
+  score: number;
+  start: number;
+  end: number;
+}
+
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+
+/** Upper bound on sequences fed to a single session run. */
+const MAX_SEQUENCES_PER_RUN = 16;
+
+/**
+ * Runs token classification directly on the ONNX session and decodes
+ * BIO tags into spans using the tokenizer's character offsets.
+ * Inputs longer than the model's context are classified in overlapping windows.
+ */
+export async function runOnnxInference(
+  modelSession: OnnxModelSession,
+  text: string
+): Promise<InferenceResult> {
+  const [result] = await runOnnxInferenceBatch(modelSession, [text]);
+  return result!;
+}
+
+/** Classifies several texts, padding their windows into shared session runs. */
+export async function runOnnxInferenceBatch(
+  modelSession: OnnxModelSession,
+  texts: string[]
+): Promise<InferenceResult[]> {
+  const startTime = Date.now();
+
+  const windowsPerText = texts.map((text) =>
+    splitIntoWindows(
+      modelSession.tokenizer.encode(text),
+      modelSession.tokenizer.maxLength,
+      modelSession.windowOverlap
+    )
+  );
+
+  const sequences = windowsPerText.flat();
+  const predictions: TokenPrediction[][] = [];
+  for (let i = 0; i < sequences.length; i += MAX_SEQUENCES_PER_RUN) {
+    predictions.push(...await classifyTokens(modelSession, sequences.slice(i, i + MAX_SEQUENCES_PER_RUN)));
+  }
+
+  const processingTimeMs = Date.now() - startTime;
+  let next = 0;
+
+  return texts.map((text, i) => {
+    const windowCount = windowsPerText[i]!.length;
+    const entities = predictions
+      .slice(next, next + windowCount)
+      .flatMap((windowPredictions) => decodeBioSpans(windowPredictions, text));
+    next += windowCount;
+
+    return {
+      entities: windowCount > 1 ? mergeWindowEntities(entities, text) : entities,
+      processingTimeMs,
+    };
+  });
+}
+
+/** Runs a padded batch of encodings; padding positions are masked out. */
+async function classifyTokens(
+  modelSession: OnnxModelSession,
+  encodings: TokenEncoding[]
+): Promise<TokenPrediction[][]> {
+  const { session, id2label } = modelSession;
+  const batchSize = encodings.length;
+  const seqLength = Math.max(...encodings.map((encoding) => encoding.ids.length));
+  const dims = [batchSize, seqLength];
+
+  const inputIds = new BigInt64Array(batchSize * seqLength);
+  const attentionMask = new BigInt64Array(batchSize * seqLength);
+  encodings.forEach((encoding, row) => {
+    inputIds.set(BigInt64Array.from(encoding.ids, BigInt), row * seqLength);
+    attentionMask.fill(1n, row * seqLength, row * seqLength + encoding.ids.length);
+  });
+
+  const feeds: Record<string, Tensor> = {
+    input_ids: new Tensor('int64', inputIds, dims),
+    attention_mask: new Tensor('int64', attentionMask, dims),
+  };
+  if (session.inputNames.includes('token_type_ids')) {
+    feeds.token_type_ids = new Tensor('int64', new BigInt64Array(batchSize * seqLength), dims);
+  }
+
+  const outputs = await session.run(feeds);
+  const logits = outputs.logits ?? outputs[session.outputNames[0]!];
+  if (!logits) {
+    throw new Error('ONNX model returned no logits output');
+  }
+
+  const data = logits.data as Float32Array;
+  const numLabels = logits.dims[2] ?? 0;
+
+  return encodings.map((encoding, row) => {
+    const predictions: TokenPrediction[] = [];
+
+    for (let i = 0; i < encoding.ids.length; i++) {
+      if (encoding.specialTokensMask[i]) continue;
+
+      const offset = (row * seqLength + i) * numLabels;
+      const [labelIdx, score] = softmaxArgmax(data.subarray(offset, offset + numLabels));
+      const [start, end] = encoding.offsets[i]!;
+
+      predictions.push({
+        label: id2label[labelIdx] ?? 'O',
+        score,
+        start,
+        end,
+      });
+    }
+
+    return predictions;
+  });
+}
+
+/** Groups consecutive same-label tokens (breaking on B- tags) into entity spans. */
+function decodeBioSpans(predictions: TokenPrediction[], text: string): PiiEntity[] {
+  const entities: PiiEntity[] = [];
+  let group: { label: string; start: number; end: number; scores: number[] } | null = null;
+
+  const close = () => {
+    if (!group) return;
+    const entity = toEntity(group, text);
+    if (entity) entities.push(entity);
+    group = null;
+  };
+
+  for (const prediction of predictions) {
+    const label = parseLabel(prediction.label);
+    if (!label || !LABEL_TO_PII_TYPE[label]) {
+      close();
+      continue;
+    }
+
+    const isBegin = prediction.label.startsWith('B-');
+    if (group && group.label === label && !isBegin) {
+      group.end = Math.max(group.end, prediction.end);
+      group.scores.push(prediction.score);
+    } else {
+      close();
+      group = {
+        label,
+        start: prediction.start,
+        end: prediction.end,
+        scores: [prediction.score],
+      };
+    }
+  }
+  close();
+
+  return entities;
+}
+
+function toEntity(
+  group: { label: string; start: number; end: number; scores: number[] },
+  text: string
+): PiiEntity | null {
+  const piiType = LABEL_TO_PII_TYPE[group.label];
+  if (!piiType) return null;
+
+  // Snap to word boundaries so a partially tagged word is replaced whole
+  let { start, end } = group;
+  while (start > 0 && WORD_CHAR.test(text[start - 1]!) && WORD_CHAR.test(text[start]!)) start--;
+  while (end < text.length && WORD_CHAR.test(text[end]!) && WORD_CHAR.test(text[end - 1]!)) end++;
+
+  while (start < end && /\s/.test(text[start]!)) start++;
+  while (end > start && /\s/.test(text[end - 1]!)) end--;
+  if (end - start < 2) return null;
+
+  return {
+    type: piiType,
+    text: text.slice(start, end),
+    start,
+    end,
+    confidence: group.scores.reduce((a, b) => a + b, 0) / group.scores.length,
+    recognizer: 'model',
+  };
+}
+
+/**
+ * Splits an encoding into windows that fit the model, each keeping the
+ * leading and trailing special tokens. Offsets stay relative to the full text.
+ */
+function splitIntoWindows(encoding: TokenEncoding, maxLength: number, overlap: number): TokenEncoding[] {
+  if (encoding.ids.length <= maxLength) return [encoding];
+
+  const total = encoding.ids.length;
+  let prefix = 0;
+  while (prefix < total && encoding.specialTokensMask[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < total - prefix && encoding.specialTokensMask[total - 1 - suffix]) suffix++;
+
+  const contentOffsets = encoding.offsets.slice(prefix, total - suffix);
+  const windows = planWindows(contentOffsets, maxLength - prefix - suffix, overlap);
+
+  return windows.map(({ start, end }) => {
+    const pick = <T>(values: T[]) => [
+      ...values.slice(0, prefix),
+      ...values.slice(prefix + start, prefix + end),
+      ...values.slice(total - suffix),
+    ];
+    return {
+      ids: pick(encoding.ids),
+      offsets: pick(encoding.offsets),
+      specialTokensMask: pick(encoding.specialTokensMask),
+    };
+  });
+}
+
+function softmaxArgmax(row: Float32Array): [number, number] {
+  let maxIdx = 0;
+  let maxVal = -Infinity;
+  for (let i = 0; i < row.length; i++) {
+    if (row[i]! > maxVal) {
+      maxVal = row[i]!;
+      maxIdx = i;
+    }
+  }
+
+  let sum = 0;
+  for (let i = 0; i < row.length; i++) {
+    sum += Math.exp(row[i]! - maxVal);
+  }
+
+  return [maxIdx, 1 / sum];
+}
@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import type { ModelSession, OnnxModelSession, PipelineModelSession } from './model-loader.js';
+import type { OffsetTokenizer, TokenEncoding } from './offset-tokenizer.js';
+import { runInference } from './inference-runner.js';
+import { planWindows } from './windowing.js';
+import { RedactionService } from '../features/redaction/redaction.service.js';
+import { SaltKeyring } from '../features/redaction/salt-keyring.js';
+
+const MAX_LENGTH = 32;
+const CLS_ID = 0;
+const SEP_ID = 1;
+const NAME_ID = 2;
+const WORD_ID = 3;
+const NAME = 'Zorbalina';
+
+/** Whitespace tokenizer with [CLS]/[SEP] and a small context, standing in for the model tokenizer. */
+function createTokenizer(): OffsetTokenizer {
+  const encode = (text: string): TokenEncoding => {
+    const words = [...text.matchAll(/\S+/g)];
+    return {
+      ids: [CLS_ID, ...words.map((match) => (match[0] === NAME ? NAME_ID : WORD_ID)), SEP_ID],
+      offsets: [[0, 0], ...words.map((match): [number, number] => [match.index, match.index + match[0].length]), [0, 0]],
+      specialTokensMask: [true, ...words.map(() => false), true],
+    };
+  };
+  return { maxLength: MAX_LENGTH, encode } as unknown as OffsetTokenizer;
+}
+
+/** Mimics the transformers.js pipeline, which silently truncates to the model's context. */
+function createPipelineSession(): PipelineModelSession {
+  const classify = (text: string) =>
+    text
+      .split(/\s+/)
+      .filter(Boolean)
+      .slice(0, MAX_LENGTH - 2)
+      .map((word, index) => ({
+        entity: word === NAME ? 'B-GIVENNAME' : 'O',
+        word,
+        score: 0.99,
+        index: index + 1,
+      }));
+  const classifier = async (input: string | string[]) =>
+    Array.isArray(input) ? input.map(classify) : classify(input);
+
+  return {
+    backend: 'transformers',
+    pipeline: classifier,
+    tokenizer: createTokenizer(),
+    windowOverlap: 4,
+  } as unknown as PipelineModelSession;
+}
+
+/** ONNX session that rejects inputs longer than the model's context. */
+function createOnnxSession(): OnnxModelSession {
+  const session = {
+    inputNames: ['input_ids', 'attention_mask'],
+    outputNames: ['logits'],
+    run: async (feeds: Record<string, { data: BigInt64Array; dims: number[] }>) => {
+      const [batchSize, seqLength] = feeds.input_ids!.dims as [number, number];
+      if (seqLength > MAX_LENGTH) {
+        throw new Error(`Sequence length ${seqLength} exceeds ${MAX_LENGTH}`);
+      }
+      const ids = [...feeds.input_ids!.data].map(Number);
+      const data = new Float32Array(ids.flatMap((id) => (id === NAME_ID ? [0, 10] : [10, 0])));
+      return { logits: { data, dims: [batchSize, seqLength, 2] } };
+    },
+  };
+
+  return {
+    backend: 'onnx',
+    session,
+    tokenizer: createTokenizer(),
+    id2label: { 0: 'O', 1: 'B-GIVENNAME' },
+    windowOverlap: 4,
+  } as unknown as OnnxModelSession;
+}
+
+function longText(fillerWords: number, suffix: string): string {
+  return `${Array.from({ length: fillerWords }, (_, i) => `word${i}`).join(' ')} ${suffix}`;
+}
+
+describe('planWindows', () => {
+  it('covers every token with overlapping windows', () => {
+    const offsets = Array.from({ length: 100 }, (_, i): [number, number] => [i * 2, i * 2 + 1]);
+    const windows = planWindows(offsets, 30, 5);
+
+    expect(windows[0]).toEqual({ start: 0, end: 30 });
+    expect(windows.at(-1)?.end).toBe(100);
+    for (let i = 1; i < windows.length; i++) {
+      expect(windows[i]!.start).toBe(windows[i - 1]!.end - 5);
+    }
+  });
+});
+
+describe.each<[string, () => ModelSession]>([
+  ['transformers', createPipelineSession],
+  ['onnx', createOnnxSession],
+])('sliding-window inference (%s backend)', (_backend, createSession) => {
+  it('detects PII past the model context with offsets into the original text', async () => {
+    const text = longText(200, `contact ${NAME} today`);
+    const { entities } = await runInference(createSession(), text);
+
+    expect(entities).toHaveLength(1);
+    expect(entities[0]).toMatchObject({ type: 'PERSON', text: NAME, start: text.indexOf(NAME) });
+  });
+
+  it('reports an entity inside a window overlap once', async () => {
+    const session = createSession();
+    // Slide the name across the overlap between the first two windows
+    for (let position = 20; position < 32; position++) {
+      const text = longText(position, `${NAME} ${longText(60, '')}`);
+      const { entities } = await runInference(session, text);
+      expect(entities).toHaveLength(1);
+    }
+  });
+
+  it('redacts PII at the end of a very long input', async () => {
+    const service = new RedactionService(
+      createSession(),
+      {
+        useDeterministicReplacement: false,
+        keyring: new SaltKeyring({ keys: [{ version: '1', key: 'test-salt-1234567890' }], scope: 'global' }),
+        timeoutMs: 5000,
+        failStrategy: 'closed',
+      },
+      []
+    );
+    const text = longText(5000, `Regards, ${NAME}`);
+    const result = await service.redact(text);
+
+    expect(result.text).not.toContain(NAME);
+    expect(result.text.endsWith('Regards, [PERSON]')).toBe(true);
+  });
+});
@@ -0,0 +1,70 @@
+import type { PiiEntity } from '../shared/types/pii.types.js';
+
+export const DEFAULT_WINDOW_OVERLAP = 64;
+
+/** Half-open range of content token indices covered by one inference pass. */
+export interface TokenWindow {
+  start: number;
+  end: number;
+}
+
+/**
+ * Splits content tokens into windows of at most `size` tokens. Each window
+ * starts `overlap` tokens before the previous one ended, moved forward to the
+ * next word start so a word is never cut at the window's leading edge.
+ */
+export function planWindows(
+  offsets: Array<[number, number]>,
+  size: number,
+  overlap: number
+): TokenWindow[] {
+  const total = offsets.length;
+  const windowSize = Math.max(1, size);
+  if (total <= windowSize) return [{ start: 0, end: total }];
+
+  // Keeps every window advancing by at least half its size
+  const effectiveOverlap = Math.min(Math.max(0, overlap), Math.floor(windowSize / 2));
+
+  const isWordStart = (index: number) =>
+    index === 0 || offsets[index]![0] > offsets[index - 1]![1];
+
+  const windows: TokenWindow[] = [];
+  let start = 0;
+  while (true) {
+    const end = Math.min(start + windowSize, total);
+    windows.push({ start, end });
+    if (end >= total) break;
+
+    let next = end - effectiveOverlap;
+    while (next < end && !isWordStart(next)) next++;
+    start = next < end ? next : end - effectiveOverlap;
+  }
+
+  return windows;
+}
+
+/**
+ * Collapses entities of the same type found by more than one overlapping
+ * window into a single span with the highest confidence seen.
+ */
+export function mergeWindowEntities(entities: PiiEntity[], text: string): PiiEntity[] {
+  const sorted = [...entities].sort((a, b) => a.start - b.start || b.end - a.end);
+  const merged: PiiEntity[] = [];
+  const lastByType = new Map<string, PiiEntity>();
+
+  for (const entity of sorted) {
+    const previous = lastByType.get(entity.type);
+    if (previous && entity.start < previous.end) {
+      previous.end = Math.max(previous.end, entity.end);
+      previous.text = text.slice(previous.start, previous.end);
+      previous.confidence = Math.max(previous.confidence, entity.confidence);
+      continue;
+    }
+
+    const copy = { ...entity };
+    merged.push(copy);
+    lastByType.set(entity.type, copy);
+  }
+
+  return merged;
+}
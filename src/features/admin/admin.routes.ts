@@ -0,0 +1,221 @@
+import { timingSafeEqual } from 'node:crypto';
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { termDictionarySchema } from '../dictionary/index.js';
+import { CalibrationService, calibrationRequestSchema } from '../calibration/index.js';
+import { credentialMappingSchema } from '../credentials/index.js';
+import type { z } from 'zod';
+
+const DEFAULT_LIST_LIMIT = 20;
+const MAX_LIST_LIMIT = 500;
+
+type SessionParams = { id: string };
+type BanBody = { ttlSeconds?: number; reason?: string };
+type TenantParams = { tenantId: string };
+type CredentialParams = { fingerprint: string };
+
+/** Constant-time comparison against the configured admin token. */
+function isAuthorized(request: FastifyRequest, adminToken: string): boolean {
+  const header = request.headers['authorization'];
+  const value = typeof header === 'string' ? header : header?.[0];
+  const token = value?.startsWith('Bearer ') ? value.slice('Bearer '.length) : undefined;
+  if (!token) return false;
+
+  const expected = Buffer.from(adminToken);
+  const actual = Buffer.from(token);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+function sendBadRequest(reply: FastifyReply, message: string): void {
+  reply.status(400).send({ error: 'Bad Request', message, statusCode: 400 });
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; ');
+}
+
+/**
+ * Session risk inspection and management, tenant term dictionaries, mapped
+ * upstream credentials and threshold calibration under `/admin`.
+ * Requires `Authorization: Bearer <ADMIN_TOKEN>` and bypasses the public rate limiter.
+ */
+export async function registerAdminRoutes(app: FastifyInstance, adminToken: string): Promise<void> {
+  const { sessionService, dictionaryService, redactionService, credentialService } = app.deps;
+  const calibration = new CalibrationService(redactionService);
+
+  await app.register(
+    async (admin) => {
+      admin.addHook('onRequest', async (request, reply) => {
+        if (!isAuthorized(request, adminToken)) {
+          reply.status(401).send({
+            error: 'Unauthorized',
+            message: 'A valid admin token is required.',
+            statusCode: 401,
+          });
+        }
+      });
+
+      admin.get<{ Querystring: { limit?: string } }>(
+        '/sessions',
+        { config: { rateLimit: false } },
+        async (request, reply) => {
+          const limit = request.query.limit === undefined
+            ? DEFAULT_LIST_LIMIT
+            : Number(request.query.limit);
+          if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIST_LIMIT) {
+            sendBadRequest(reply, `"limit" must be an integer between 1 and ${MAX_LIST_LIMIT}.`);
+            return;
+          }
+
+          const sessions = await sessionService.listRiskiestSessions(limit);
+          reply.send({ sessions });
+        }
+      );
+
+      admin.get<{ Params: SessionParams }>(
+        '/sessions/:id',
+        { config: { rateLimit: false } },
+        async (request) => sessionService.getSessionState(request.params.id)
+      );
+
+      admin.post<{ Params: SessionParams }>(
+        '/sessions/:id/reset',
+        { config: { rateLimit: false } },
+        async (request) => {
+          await sessionService.resetSession(request.params.id);
+          console.log(`[INFO] Admin reset session ${request.params.id}`);
+          return sessionService.getSessionState(request.params.id);
+        }
+      );
+
+      admin.post<{ Params: SessionParams; Body: BanBody }>(
+        '/sessions/:id/ban',
+        { config: { rateLimit: false } },
+        async (request, reply) => {
+          const body = (request.body ?? {}) as BanBody;
+          if (
+            body.ttlSeconds !== undefined &&
+            (!Number.isInteger(body.ttlSeconds) || body.ttlSeconds < 1)
+          ) {
+            sendBadRequest(reply, '"ttlSeconds" must be a positive integer.');
+            return;
+          }
+          if (body.reason !== undefined && typeof body.reason !== 'string') {
+            sendBadRequest(reply, '"reason" must be a string.');
+            return;
+          }
+
+          await sessionService.ban(request.params.id, body);
+          console.log(`[INFO] Admin banned session ${request.params.id}`);
+          reply.send(await sessionService.getSessionState(request.params.id));
+        }
+      );
+
+      admin.get<{ Params: TenantParams }>(
+        '/dictionaries/:tenantId',
+        { config: { rateLimit: false } },
+        async (request) => ({
+          tenantId: request.params.tenantId,
+          ...(await dictionaryService.get(request.params.tenantId)),
+        })
+      );
+
+      admin.put<{ Params: TenantParams }>(
+        '/dictionaries/:tenantId',
+        { config: { rateLimit: false } },
+        async (request, reply) => {
+          const parsed = termDictionarySchema.safeParse(request.body ?? {});
+          if (!parsed.success) {
+            sendBadRequest(reply, formatIssues(parsed.error));
+            return;
+          }
+
+          const dictionary = await dictionaryService.put(request.params.tenantId, parsed.data);
+          console.log(
+            `[INFO] Admin updated dictionary for tenant ${request.params.tenantId} ` +
+              `(${dictionary.allow.length} allowed, ${dictionary.deny.length} denied)`
+          );
+          reply.send({ tenantId: request.params.tenantId, ...dictionary });
+        }
+      );
+
+      admin.delete<{ Params: TenantParams }>(
+        '/dictionaries/:tenantId',
+        { config: { rateLimit: false } },
+        async (request, reply) => {
+          await dictionaryService.delete(request.params.tenantId);
+          console.log(`[INFO] Admin removed dictionary for tenant ${request.params.tenantId}`);
+          reply.status(204).send();
+        }
+      );
+
+      admin.put(
+        '/credentials',
+        { config: { rateLimit: false } },
+        async (request, reply) => {
+          const parsed = credentialMappingSchema.safeParse(request.body ?? {});
+          if (!parsed.success) {
+            sendBadRequest(reply, formatIssues(parsed.error));
+            return;
+          }
+
+          const fingerprint = await credentialService.register(
+            parsed.data.clientKey,
+            parsed.data.upstreamKeys
+          );
+          console.log(`[INFO] Admin mapped upstream keys for credential ${fingerprint}`);
+          reply.send({ fingerprint, upstreams: Object.keys(parsed.data.upstreamKeys) });
+        }
+      );
+
+      admin.get<{ Params: CredentialParams }>(
+        '/credentials/:fingerprint',
+        { config: { rateLimit: false } },
+        async (request, reply) => {
+          const upstreams = await credentialService.describe(request.params.fingerprint);
+          if (upstreams.length === 0) {
+            reply.status(404).send({
+              error: 'Not Found',
+              message: 'No keys are mapped to this credential.',
+              statusCode: 404,
+            });
+            return;
+          }
+          reply.send({ fingerprint: request.params.fingerprint, upstreams });
+        }
+      );
+
+      admin.delete<{ Params: CredentialParams }>(
+        '/credentials/:fingerprint',
+        { config: { rateLimit: false } },
+        async (request, reply) => {
+          if (!(await credentialService.unregister(request.params.fingerprint))) {
+            reply.status(404).send({
+              error: 'Not Found',
+              message: 'No keys are mapped to this credential.',
+              statusCode: 404,
+            });
+            return;
+          }
+          console.log(`[INFO] Admin removed upstream keys for credential ${request.params.fingerprint}`);
+          reply.status(204).send();
+        }
+      );
+
+      // Debug aid: scores detection on a labeled sample set across confidence thresholds
+      admin.post(
+        '/calibration',
+        { config: { rateLimit: false }, bodyLimit: 10 * 1024 * 1024 },
+        async (request, reply) => {
+          const parsed = calibrationRequestSchema.safeParse(request.body ?? {});
+          if (!parsed.success) {
+            sendBadRequest(reply, formatIssues(parsed.error));
+            return;
+          }
+
+          reply.send(await calibration.run(parsed.data));
+        }
+      );
+    },
+    { prefix: '/admin' }
+  );
+}
@@ -0,0 +1 @@
+export { registerAdminRoutes } from './admin.routes.js';
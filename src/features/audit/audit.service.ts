@@ -0,0 +1,94 @@
+import { createHmac } from 'node:crypto';
+import type { AuditSink } from './audit.sink.js';
+import type { PiiEntity, PiiEntityType } from '../../shared/types/pii.types.js';
+import type { RedactionAction, RedactionMode } from '../../shared/types/policy.types.js';
+import type {
+  AuditContext,
+  AuditDirection,
+  AuditEvent,
+  AuditOutcome,
+} from '../../shared/types/audit.types.js';
+
+export interface AuditConfig {
+  /** Key for session and value fingerprints; rotating it breaks correlation with older events. */
+  hmacKey: string;
+}
+
+export interface AuditRecordInput {
+  context: AuditContext;
+  direction: AuditDirection;
+  outcome: AuditOutcome;
+  tenantId?: string;
+  keyVersion?: string;
+  /** Defaults to enforce. */
+  mode?: RedactionMode;
+  entities: Array<{ entity: PiiEntity; action: RedactionAction }>;
+  processingTimeMs: number;
+}
+
+const FINGERPRINT_LENGTH = 32;
+
+/**
+ * Builds one audit event per redaction and fans it out to the sinks.
+ * Values and session IDs only ever leave as keyed fingerprints.
+ */
+export class AuditService {
+  private sinks: AuditSink[];
+  private config: AuditConfig;
+
+  constructor(sinks: AuditSink[], config: AuditConfig) {
+    this.sinks = sinks;
+    this.config = config;
+  }
+
+  addSink(sink: AuditSink): void {
+    this.sinks.push(sink);
+  }
+
+  record(input: AuditRecordInput): void {
+    const countsByType: Partial<Record<PiiEntityType, number>> = {};
+    for (const { entity } of input.entities) {
+      countsByType[entity.type] = (countsByType[entity.type] ?? 0) + 1;
+    }
+
+    const event: AuditEvent = {
+      timestamp: new Date().toISOString(),
+      sessionHash: this.fingerprint(`session:${input.context.sessionId}`),
+      ...(input.tenantId ? { tenantId: input.tenantId } : {}),
+      ...(input.keyVersion ? { keyVersion: input.keyVersion } : {}),
+      mode: input.mode ?? 'enforce',
+      direction: input.direction,
+      route: input.context.route,
+      outcome: input.outcome,
+      entityCount: input.entities.length,
+      countsByType,
+      entities: input.entities.map(({ entity, action }) => ({
+        type: entity.type,
+        confidence: Math.round(entity.confidence * 1000) / 1000,
+        recognizer: entity.recognizer,
+        action,
+        fingerprint: this.fingerprint(`${entity.type}:${entity.text}`),
+      })),
+      processingTimeMs: input.processingTimeMs,
+    };
+
+    for (const sink of this.sinks) {
+      try {
+        const pending = sink.write(event);
+        if (pending) {
+          pending.catch((error) => console.warn(`[WARN] Audit sink "${sink.name}" failed:`, error));
+        }
+      } catch (error) {
+        console.warn(`[WARN] Audit sink "${sink.name}" failed:`, error);
+      }
+    }
+  }
+
+  async close(): Promise<void> {
+    await Promise.all(this.sinks.map((sink) => sink.close()));
+  }
+
+  private fingerprint(value: string): string {
+    return createHmac('sha256', this.config.hmacKey).update(value).digest('hex').slice(0, FINGERPRINT_LENGTH);
+  }
+}
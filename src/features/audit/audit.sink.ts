@@ -0,0 +1,8 @@
+import type { AuditEvent } from '../../shared/types/audit.types.js';
+
+/** Destination for audit events; implementations must not block the request path. */
+export interface AuditSink {
+  readonly name: string;
+  write(event: AuditEvent): void | Promise<void>;
+  close(): Promise<void>;
+}
@@ -0,0 +1,5 @@
+export { AuditService } from './audit.service.js';
+export type { AuditConfig, AuditRecordInput } from './audit.service.js';
+export type { AuditSink } from './audit.sink.js';
+export { JsonlFileSink } from './jsonl-file.sink.js';
+export type { JsonlFileSinkConfig } from './jsonl-file.sink.js';
@@ -0,0 +1,95 @@
+import { createWriteStream, mkdirSync, type WriteStream } from 'node:fs';
+import { readdir, unlink } from 'node:fs/promises';
+import path from 'node:path';
+import type { AuditSink } from './audit.sink.js';
+import type { AuditEvent } from '../../shared/types/audit.types.js';
+
+export interface JsonlFileSinkConfig {
+  directory: string;
+  /** Start a new file once the current one reaches this size. */
+  maxFileBytes: number;
+  /** Start a new file once the current one is this old. */
+  rotateIntervalMs: number;
+  /** Oldest rotated files beyond this count are deleted; 0 keeps all. */
+  maxFiles: number;
+}
+
+const FILE_PREFIX = 'audit-';
+const FILE_SUFFIX = '.jsonl';
+
+/**
+ * Appends one JSON event per line to `audit-<timestamp>.jsonl` files,
+ * rotating by size and age.
+ */
+export class JsonlFileSink implements AuditSink {
+  readonly name = 'jsonl-file';
+  private config: JsonlFileSinkConfig;
+  private stream: WriteStream | null = null;
+  private bytesWritten = 0;
+  private openedAt = 0;
+  private pruning: Promise<void> = Promise.resolve();
+
+  constructor(config: JsonlFileSinkConfig) {
+    this.config = config;
+    mkdirSync(config.directory, { recursive: true });
+  }
+
+  write(event: AuditEvent): void {
+    const line = JSON.stringify(event) + '\n';
+    const size = Buffer.byteLength(line);
+
+    if (
+      !this.stream ||
+      (this.bytesWritten > 0 && this.bytesWritten + size > this.config.maxFileBytes) ||
+      Date.now() - this.openedAt >= this.config.rotateIntervalMs
+    ) {
+      this.rotate();
+    }
+
+    this.stream!.write(line);
+    this.bytesWritten += size;
+  }
+
+  async close(): Promise<void> {
+    const stream = this.stream;
+    this.stream = null;
+    if (stream) {
+      await new Promise<void>((resolve) => stream.end(resolve));
+    }
+    await this.pruning;
+  }
+
+  private rotate(): void {
+    this.stream?.end();
+
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const filePath = path.join(this.config.directory, `${FILE_PREFIX}${stamp}${FILE_SUFFIX}`);
+
+    this.stream = createWriteStream(filePath, { flags: 'a' });
+    this.stream.on('error', (error) => {
+      console.error(`[ERROR] Audit log write failed (${filePath}):`, error.message);
+    });
+    this.stream.once('open', () => {
+      this.pruning = this.pruning
+        .then(() => this.pruneOldFiles())
+        .catch((error) => {
+          console.warn('[WARN] Failed to prune audit logs:', error);
+        });
+    });
+    this.bytesWritten = 0;
+    this.openedAt = Date.now();
+  }
+
+  /** Timestamped names sort chronologically, so the newest `maxFiles` are kept. */
+  private async pruneOldFiles(): Promise<void> {
+    if (this.config.maxFiles <= 0) return;
+
+    const files = (await readdir(this.config.directory))
+      .filter((file) => file.startsWith(FILE_PREFIX) && file.endsWith(FILE_SUFFIX))
+      .sort();
+
+    for (const file of files.slice(0, Math.max(0, files.length - this.config.maxFiles))) {
+      await unlink(path.join(this.config.directory, file));
+    }
+  }
+}
@@ -0,0 +1,43 @@
+import { z } from 'zod';
+import { PII_ENTITY_TYPES } from '../../shared/types/pii.types.js';
+
+const entityTypeSchema = z.enum(PII_ENTITY_TYPES);
+
+/** A gold span, either by offsets or by text (every occurrence is labeled). */
+const labelSchema = z.union([
+  z.object({ type: entityTypeSchema, start: z.number().int().min(0), end: z.number().int().positive() }).strict(),
+  z.object({ type: entityTypeSchema, text: z.string().min(1) }).strict(),
+]);
+
+export const calibrationRequestSchema = z
+  .object({
+    samples: z
+      .array(
+        z
+          .object({
+            text: z.string().min(1).max(20000),
+            entities: z.array(labelSchema).default([]),
+          })
+          .strict()
+          .superRefine((sample, ctx) => {
+            sample.entities.forEach((label, i) => {
+              if ('start' in label && (label.end <= label.start || label.end > sample.text.length)) {
+                ctx.addIssue({
+                  code: 'custom',
+                  path: ['entities', i],
+                  message: 'Label offsets must satisfy start < end <= text length',
+                });
+              }
+            });
+          })
+      )
+      .min(1)
+      .max(500),
+    thresholds: z.array(z.number().min(0).max(1)).min(1).max(50).optional(),
+    /** Applies that tenant's term dictionary during detection. */
+    tenantId: z.string().min(1).optional(),
+  })
+  .strict();
+
+export type CalibrationRequest = z.infer<typeof calibrationRequestSchema>;
+export type CalibrationLabel = z.infer<typeof labelSchema>;
@@ -0,0 +1,169 @@
+import type { RedactionService } from '../redaction/index.js';
+import type { PiiEntity, PiiEntityType } from '../../shared/types/pii.types.js';
+import type { CalibrationLabel, CalibrationRequest } from './calibration.schema.js';
+
+const DEFAULT_THRESHOLDS = [0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9, 0.95];
+
+interface GoldSpan {
+  type: PiiEntityType;
+  start: number;
+  end: number;
+}
+
+/** Precision/recall at one threshold; null where the ratio is undefined (0/0). */
+export interface ThresholdScore {
+  threshold: number;
+  precision: number | null;
+  recall: number | null;
+  f1: number | null;
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+}
+
+export interface CalibrationReport {
+  samples: number;
+  thresholds: number[];
+  overall: ThresholdScore[];
+  byType: Partial<Record<PiiEntityType, ThresholdScore[]>>;
+  /** Threshold with the best F1 per type; ties go to the higher threshold. */
+  recommended: Partial<Record<PiiEntityType, number>>;
+}
+
+interface Counts {
+  tp: number;
+  fp: number;
+  fn: number;
+}
+
+/**
+ * Runs detection over a labeled sample set and scores it at several
+ * confidence thresholds, to help choose per-type minimum confidences.
+ * A detection counts as correct when it has the gold span's type and
+ * overlaps it; each gold span can be matched once.
+ */
+export class CalibrationService {
+  private redactionService: RedactionService;
+
+  constructor(redactionService: RedactionService) {
+    this.redactionService = redactionService;
+  }
+
+  async run(request: CalibrationRequest): Promise<CalibrationReport> {
+    const thresholds = [...new Set(request.thresholds ?? DEFAULT_THRESHOLDS)].sort((a, b) => a - b);
+
+    const evaluated: Array<{ gold: GoldSpan[]; detected: PiiEntity[] }> = [];
+    for (const sample of request.samples) {
+      const { entities } = await this.redactionService.detect(sample.text, request.tenantId);
+      evaluated.push({ gold: resolveLabels(sample.text, sample.entities), detected: entities });
+    }
+
+    const types = new Set<PiiEntityType>();
+    for (const { gold, detected } of evaluated) {
+      for (const span of [...gold, ...detected]) types.add(span.type);
+    }
+
+    const overall: ThresholdScore[] = [];
+    const byType: Partial<Record<PiiEntityType, ThresholdScore[]>> = {};
+
+    for (const threshold of thresholds) {
+      const total: Counts = { tp: 0, fp: 0, fn: 0 };
+      const perType = new Map<PiiEntityType, Counts>();
+
+      for (const { gold, detected } of evaluated) {
+        const kept = detected.filter((e) => e.confidence >= threshold);
+        for (const type of types) {
+          const counts = score(
+            gold.filter((g) => g.type === type),
+            kept.filter((e) => e.type === type)
+          );
+          const typeCounts = perType.get(type) ?? { tp: 0, fp: 0, fn: 0 };
+          perType.set(type, add(typeCounts, counts));
+          add(total, counts);
+        }
+      }
+
+      overall.push(toScore(threshold, total));
+      for (const [type, counts] of perType) {
+        (byType[type] ??= []).push(toScore(threshold, counts));
+      }
+    }
+
+    const recommended: Partial<Record<PiiEntityType, number>> = {};
+    for (const [type, scores] of Object.entries(byType) as Array<[PiiEntityType, ThresholdScore[]]>) {
+      let best: ThresholdScore | undefined;
+      for (const candidate of scores) {
+        if (candidate.f1 !== null && (!best || candidate.f1 >= (best.f1 ?? 0))) best = candidate;
+      }
+      if (best) recommended[type] = best.threshold;
+    }
+
+    return { samples: request.samples.length, thresholds, overall, byType, recommended };
+  }
+}
+
+/** Expands text labels to every occurrence in the sample. */
+function resolveLabels(text: string, labels: CalibrationLabel[]): GoldSpan[] {
+  const spans: GoldSpan[] = [];
+  for (const label of labels) {
+    if ('start' in label) {
+      spans.push({ type: label.type, start: label.start, end: label.end });
+      continue;
+    }
+
+    let from = 0;
+    while (from < text.length) {
+      const start = text.indexOf(label.text, from);
+      if (start === -1) break;
+      spans.push({ type: label.type, start, end: start + label.text.length });
+      from = start + label.text.length;
+    }
+  }
+  return spans;
+}
+
+/** Greedy overlap matching, most confident detections first. */
+function score(gold: GoldSpan[], detected: PiiEntity[]): Counts {
+  const matched = new Set<GoldSpan>();
+  let tp = 0;
+  let fp = 0;
+
+  for (const entity of [...detected].sort((a, b) => b.confidence - a.confidence)) {
+    const hit = gold.find((g) => !matched.has(g) && entity.start < g.end && entity.end > g.start);
+    if (hit) {
+      matched.add(hit);
+      tp++;
+    } else {
+      fp++;
+    }
+  }
+
+  return { tp, fp, fn: gold.length - matched.size };
+}
+
+function add(target: Counts, counts: Counts): Counts {
+  target.tp += counts.tp;
+  target.fp += counts.fp;
+  target.fn += counts.fn;
+  return target;
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator === 0 ? null : Math.round((numerator / denominator) * 1000) / 1000;
+}
+
+function toScore(threshold: number, counts: Counts): ThresholdScore {
+  const precision = ratio(counts.tp, counts.tp + counts.fp);
+  const recall = ratio(counts.tp, counts.tp + counts.fn);
+  const f1 = ratio(2 * counts.tp, 2 * counts.tp + counts.fp + counts.fn);
+
+  return {
+    threshold,
+    precision,
+    recall,
+    f1,
+    truePositives: counts.tp,
+    falsePositives: counts.fp,
+    falseNegatives: counts.fn,
+  };
+}
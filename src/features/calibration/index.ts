@@ -0,0 +1,4 @@
+export { CalibrationService } from './calibration.service.js';
+export type { CalibrationReport, ThresholdScore } from './calibration.service.js';
+export { calibrationRequestSchema } from './calibration.schema.js';
+export type { CalibrationRequest } from './calibration.schema.js';
@@ -0,0 +1,14 @@
+import { z } from 'zod';
+
+export const credentialMappingSchema = z
+  .object({
+    /** The key clients send; only its fingerprint is stored. */
+    clientKey: z.string().min(16),
+    /** Upstream name (routing table name, `default`, `anthropic`, `gemini`) or `*` to key. */
+    upstreamKeys: z
+      .record(z.string().min(1), z.string().min(1))
+      .refine((keys) => Object.keys(keys).length > 0, { message: 'At least one upstream key is required' }),
+  })
+  .strict();
+
+export type CredentialMapping = z.infer<typeof credentialMappingSchema>;
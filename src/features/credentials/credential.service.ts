@@ -0,0 +1,104 @@
+import { createHash } from 'node:crypto';
+import type { CredentialStore } from './credential.store.js';
+
+/**
+ * - proxy: upstreams get the proxy's configured keys; client credentials only identify the caller
+ * - forward: the caller's own key is sent to upstreams that opt in with `forwardClientKey`
+ * - mapped: the caller's key is swapped for upstream keys stored for it
+ */
+export type CredentialMode = 'proxy' | 'forward' | 'mapped';
+
+/** Upstream keys by upstream name; `*` applies to any upstream without its own entry. */
+export type UpstreamCredentials = Record<string, string>;
+
+/** Upstream keys for one request; a forwarded caller key only reaches upstreams that opt in. */
+export interface ClientCredentials {
+  keys: UpstreamCredentials;
+  /** True in forward mode, where `keys` holds the caller's own key. */
+  forwarded: boolean;
+}
+
+/** Raised when a client credential is missing or has no mapping in BYOK modes. */
+export class CredentialError extends Error {
+  readonly statusCode = 401;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'CredentialError';
+  }
+}
+
+/** Irreversible identifier for a client credential, safe for keys, logs and the admin API. */
+export function fingerprintCredential(value: string): string {
+  return createHash('sha256').update(value).digest('hex').slice(0, 32);
+}
+
+/**
+ * Key for one upstream: the configured one in proxy mode, otherwise the
+ * caller's. The proxy's own keys are never used for BYOK callers.
+ */
+export function upstreamKeyFor(
+  credentials: ClientCredentials | null,
+  upstream: string,
+  configured: string | undefined
+): string | undefined {
+  if (!credentials) return configured;
+  return credentials.keys[upstream] ?? credentials.keys['*'];
+}
+
+/** The caller's key from `x-api-key` or an `Authorization: Bearer` header. */
+function extractClientKey(headers: Record<string, string | string[] | undefined>): string | null {
+  const first = (value: string | string[] | undefined) => (Array.isArray(value) ? value[0] : value);
+
+  const apiKey = first(headers['x-api-key']);
+  if (apiKey) return apiKey;
+
+  const auth = first(headers['authorization']);
+  if (auth?.startsWith('Bearer ')) return auth.slice(7).trim() || null;
+
+  return null;
+}
+
+/** Decides which upstream credentials a request is sent with. */
+export class CredentialService {
+  private store: CredentialStore;
+  readonly mode: CredentialMode;
+
+  constructor(store: CredentialStore, mode: CredentialMode) {
+    this.store = store;
+    this.mode = mode;
+  }
+
+  /** Null in proxy mode, meaning each upstream uses its configured key. */
+  async resolve(headers: Record<string, string | string[] | undefined>): Promise<ClientCredentials | null> {
+    if (this.mode === 'proxy') return null;
+
+    const clientKey = extractClientKey(headers);
+    if (!clientKey) {
+      throw new CredentialError('An API key is required (Authorization: Bearer <key> or x-api-key).');
+    }
+    if (this.mode === 'forward') return { keys: { '*': clientKey }, forwarded: true };
+
+    const mapped = await this.store.get(fingerprintCredential(clientKey));
+    if (Object.keys(mapped).length === 0) {
+      throw new CredentialError('The API key is not registered with this proxy.');
+    }
+    return { keys: mapped, forwarded: false };
+  }
+
+  /** Maps a client key to upstream keys, returning the fingerprint it is stored under. */
+  async register(clientKey: string, upstreamKeys: UpstreamCredentials): Promise<string> {
+    const fingerprint = fingerprintCredential(clientKey);
+    await this.store.set(fingerprint, upstreamKeys);
+    return fingerprint;
+  }
+
+  /** Upstream names with a mapped key; the keys themselves are never returned. */
+  async describe(fingerprint: string): Promise<string[]> {
+    return Object.keys(await this.store.get(fingerprint));
+  }
+
+  async unregister(fingerprint: string): Promise<boolean> {
+    return this.store.delete(fingerprint);
+  }
+}
@@ -0,0 +1,31 @@
+import type { StoreClient } from '../../infrastructure/store/store-client.js';
+
+/**
+ * Upstream keys mapped to client credentials, keyed by credential fingerprint
+ * so client tokens are never stored. Fields are upstream names, `*` for any.
+ */
+export class CredentialStore {
+  private store: StoreClient;
+  private readonly keyPrefix = 'credential:';
+
+  constructor(store: StoreClient) {
+    this.store = store;
+    // An evicted mapping would start rejecting a registered caller as unknown
+    this.store.markPersistent(this.keyPrefix);
+  }
+
+  async get(fingerprint: string): Promise<Record<string, string>> {
+    return this.store.hgetall(`${this.keyPrefix}${fingerprint}`);
+  }
+
+  /** Replaces every upstream key mapped to the credential. */
+  async set(fingerprint: string, upstreamKeys: Record<string, string>): Promise<void> {
+    const key = `${this.keyPrefix}${fingerprint}`;
+    await this.store.del(key);
+    await this.store.hset(key, upstreamKeys);
+  }
+
+  async delete(fingerprint: string): Promise<boolean> {
+    return (await this.store.del(`${this.keyPrefix}${fingerprint}`)) > 0;
+  }
+}
@@ -0,0 +1,10 @@
+export {
+  CredentialService,
+  CredentialError,
+  fingerprintCredential,
+  upstreamKeyFor,
+} from './credential.service.js';
+export type { ClientCredentials, CredentialMode, UpstreamCredentials } from './credential.service.js';
+export { CredentialStore } from './credential.store.js';
+export { credentialMappingSchema } from './credential.schema.js';
+export type { CredentialMapping } from './credential.schema.js';
@@ -0,0 +1,20 @@
+import { z } from 'zod';
+import { PII_ENTITY_TYPES } from '../../shared/types/pii.types.js';
+
+const MAX_TERMS = 10000;
+
+const termSchema = z.string().trim().min(1).max(256);
+
+export const termDictionarySchema = z
+  .object({
+    /** Never redacted, whatever a recognizer reports. */
+    allow: z.array(termSchema).max(MAX_TERMS).default([]),
+    /** Always redacted, as the given entity type. */
+    deny: z
+      .array(z.object({ term: termSchema, type: z.enum(PII_ENTITY_TYPES) }).strict())
+      .max(MAX_TERMS)
+      .default([]),
+  })
+  .strict();
+
+export type TermDictionary = z.infer<typeof termDictionarySchema>;
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import type { PiiEntity, PiiEntityType } from '../../shared/types/pii.types.js';
+import { CompiledDictionary } from './dictionary.service.js';
+
+function entity(text: string, value: string, type: PiiEntityType): PiiEntity {
+  const start = text.indexOf(value);
+  return { type, text: value, start, end: start + value.length, confidence: 0.9, recognizer: 'test' };
+}
+
+describe('CompiledDictionary', () => {
+  it('keeps detections that only partly overlap an allowlisted term', () => {
+    const text = 'Mail jane.doe@acme.com or visit 12 Acme Road, Springfield';
+    const detected = [
+      entity(text, 'jane.doe@acme.com', 'EMAIL'),
+      entity(text, '12 Acme Road, Springfield', 'ADDRESS'),
+    ];
+
+    const result = new CompiledDictionary({ allow: ['Acme'], deny: [] }).apply(text, detected);
+
+    expect(result.map((e) => e.type)).toEqual(['EMAIL', 'ADDRESS']);
+  });
+
+  it('drops detections entirely within an allowlisted term', () => {
+    const text = 'Ask Jane Acme about it';
+    const detected = [entity(text, 'Jane Acme', 'PERSON')];
+
+    const result = new CompiledDictionary({ allow: ['Jane Acme'], deny: [] }).apply(text, detected);
+
+    expect(result).toEqual([]);
+  });
+});
@@ -0,0 +1,123 @@
+import type { PiiEntity, PiiEntityType } from '../../shared/types/pii.types.js';
+import type { DictionaryStore } from './dictionary.store.js';
+import type { TermDictionary } from './dictionary.schema.js';
+import { TermMatcher, type TermMatch } from './term-matcher.js';
+
+/** Recognizer name carried by denylist entities. */
+export const DICTIONARY_RECOGNIZER = 'dictionary';
+
+export interface DictionaryServiceConfig {
+  /** How long a compiled dictionary is reused before it is re-read from the store. */
+  refreshMs: number;
+}
+
+function overlapsAny(entity: PiiEntity, matches: TermMatch[]): boolean {
+  return matches.some((m) => entity.start < m.end && entity.end > m.start);
+}
+
+function coveredByAny(entity: PiiEntity, matches: TermMatch[]): boolean {
+  return matches.some((m) => m.start <= entity.start && entity.end <= m.end);
+}
+
+/** Keeps the first item for each key. */
+function uniqueBy<T>(items: T[], key: (item: T) => string): T[] {
+  const seen = new Set<string>();
+  return items.filter((item) => {
+    const k = key(item);
+    if (seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+}
+
+/** A tenant's dictionary compiled into matchers, ready to apply to detection output. */
+export class CompiledDictionary {
+  private allow: TermMatcher;
+  private deny: TermMatcher;
+  private denyTypes: PiiEntityType[];
+
+  constructor(dictionary: TermDictionary) {
+    this.allow = new TermMatcher(dictionary.allow);
+    this.deny = new TermMatcher(dictionary.deny.map((entry) => entry.term));
+    this.denyTypes = dictionary.deny.map((entry) => entry.type);
+  }
+
+  /**
+   * Drops detected entities that lie entirely within an allowlisted term (an
+   * email on an allowlisted domain is still redacted), then adds every
+   * denylisted term, which also displaces any detection it overlaps. A term on
+   * both lists is redacted.
+   */
+  apply(text: string, entities: PiiEntity[]): PiiEntity[] {
+    const allowed = this.allow.size > 0 ? this.allow.findAll(text) : [];
+    const denied = this.deny.size > 0 ? this.deny.findAll(text) : [];
+    if (allowed.length === 0 && denied.length === 0) return entities;
+
+    const kept = entities.filter((e) => !coveredByAny(e, allowed) && !overlapsAny(e, denied));
+    const added: PiiEntity[] = denied.map((match) => ({
+      type: this.denyTypes[match.term]!,
+      text: text.slice(match.start, match.end),
+      start: match.start,
+      end: match.end,
+      confidence: 1,
+      recognizer: DICTIONARY_RECOGNIZER,
+    }));
+
+    return [...kept, ...added].sort((a, b) => a.start - b.start);
+  }
+}
+
+/**
+ * Manages per-tenant allowlists and denylists. Compiled dictionaries are
+ * cached per tenant and refreshed periodically, so changes made through
+ * another instance take effect within `refreshMs`.
+ */
+export class DictionaryService {
+  private store: DictionaryStore;
+  private config: DictionaryServiceConfig;
+  private cache = new Map<string, { loadedAt: number; dictionary: Promise<CompiledDictionary | null> }>();
+
+  constructor(store: DictionaryStore, config: DictionaryServiceConfig) {
+    this.store = store;
+    this.config = config;
+  }
+
+  /** The tenant's compiled dictionary, or null when it has none. */
+  async forTenant(tenantId: string): Promise<CompiledDictionary | null> {
+    const cached = this.cache.get(tenantId);
+    if (cached && Date.now() - cached.loadedAt < this.config.refreshMs) {
+      return cached.dictionary;
+    }
+
+    const dictionary = this.store.get(tenantId).then((stored) =>
+      stored && (stored.allow.length > 0 || stored.deny.length > 0) ? new CompiledDictionary(stored) : null
+    );
+    this.cache.set(tenantId, { loadedAt: Date.now(), dictionary });
+    // A failed read is retried on the next request rather than cached
+    dictionary.catch(() => {
+      if (this.cache.get(tenantId)?.dictionary === dictionary) this.cache.delete(tenantId);
+    });
+    return dictionary;
+  }
+
+  async get(tenantId: string): Promise<TermDictionary> {
+    return (await this.store.get(tenantId)) ?? { allow: [], deny: [] };
+  }
+
+  /** Replaces the tenant's dictionary; duplicate terms are collapsed case-insensitively. */
+  async put(tenantId: string, dictionary: TermDictionary): Promise<TermDictionary> {
+    const normalized: TermDictionary = {
+      allow: uniqueBy(dictionary.allow, (term) => term.toLowerCase()),
+      deny: uniqueBy(dictionary.deny, (entry) => entry.term.toLowerCase()),
+    };
+
+    await this.store.set(tenantId, normalized);
+    this.cache.delete(tenantId);
+    return normalized;
+  }
+
+  async delete(tenantId: string): Promise<void> {
+    await this.store.delete(tenantId);
+    this.cache.delete(tenantId);
+  }
+}
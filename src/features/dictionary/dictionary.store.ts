@@ -0,0 +1,27 @@
+import type { StoreClient } from '../../infrastructure/store/store-client.js';
+import type { TermDictionary } from './dictionary.schema.js';
+
+/** Per-tenant term dictionaries, one JSON document per tenant. */
+export class DictionaryStore {
+  private store: StoreClient;
+  private readonly keyPrefix = 'dictionary:';
+
+  constructor(store: StoreClient) {
+    this.store = store;
+    // Dictionaries are configuration; losing one silently would stop redacting its terms
+    this.store.markPersistent(this.keyPrefix);
+  }
+
+  async get(tenantId: string): Promise<TermDictionary | null> {
+    const raw = await this.store.get(`${this.keyPrefix}${tenantId}`);
+    return raw ? (JSON.parse(raw) as TermDictionary) : null;
+  }
+
+  async set(tenantId: string, dictionary: TermDictionary): Promise<void> {
+    await this.store.set(`${this.keyPrefix}${tenantId}`, JSON.stringify(dictionary));
+  }
+
+  async delete(tenantId: string): Promise<void> {
+    await this.store.del(`${this.keyPrefix}${tenantId}`);
+  }
+}
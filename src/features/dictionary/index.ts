@@ -0,0 +1,7 @@
+export { DictionaryService, CompiledDictionary, DICTIONARY_RECOGNIZER } from './dictionary.service.js';
+export type { DictionaryServiceConfig } from './dictionary.service.js';
+export { DictionaryStore } from './dictionary.store.js';
+export { termDictionarySchema } from './dictionary.schema.js';
+export type { TermDictionary } from './dictionary.schema.js';
+export { TermMatcher } from './term-matcher.js';
+export type { TermMatch } from './term-matcher.js';
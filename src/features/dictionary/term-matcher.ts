@@ -0,0 +1,131 @@
+export interface TermMatch {
+  start: number;
+  end: number;
+  /** Index of the matched term in the list the matcher was built from. */
+  term: number;
+}
+
+const WORD_CHAR = /[\p{L}\p{N}_]/u;
+
+/** Lower-cases per UTF-16 unit, keeping characters whose lower case changes length so offsets stay aligned. */
+function fold(char: string): string {
+  const lower = char.toLowerCase();
+  return lower.length === char.length ? lower : char;
+}
+
+function foldText(text: string): string {
+  let folded = '';
+  for (let i = 0; i < text.length; i++) {
+    folded += fold(text[i]!);
+  }
+  return folded;
+}
+
+function isWordChar(char: string | undefined): boolean {
+  return char !== undefined && WORD_CHAR.test(char);
+}
+
+/**
+ * Case-insensitive, word-bounded multi-term search over an Aho-Corasick
+ * automaton: one pass over the text regardless of how many terms there are.
+ * Overlapping hits resolve leftmost-longest.
+ */
+export class TermMatcher {
+  private transitions: Array<Map<string, number>> = [new Map()];
+  private failure: number[] = [0];
+  /** Terms ending at each node, including those reached through failure links. */
+  private outputs: number[][] = [[]];
+  private terms: string[];
+
+  constructor(terms: readonly string[]) {
+    this.terms = terms.map(foldText);
+    this.terms.forEach((term, index) => this.insert(term, index));
+    this.buildFailureLinks();
+  }
+
+  get size(): number {
+    return this.terms.length;
+  }
+
+  findAll(text: string): TermMatch[] {
+    const hits: TermMatch[] = [];
+    let node = 0;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = fold(text[i]!);
+      while (node !== 0 && !this.transitions[node]!.has(char)) {
+        node = this.failure[node]!;
+      }
+      node = this.transitions[node]!.get(char) ?? 0;
+
+      for (const term of this.outputs[node]!) {
+        const end = i + 1;
+        const start = end - this.terms[term]!.length;
+        if (this.isBounded(text, start, end)) {
+          hits.push({ start, end, term });
+        }
+      }
+    }
+
+    return selectLeftmostLongest(hits);
+  }
+
+  /** Word boundaries are only required where the term itself starts or ends with a word character. */
+  private isBounded(text: string, start: number, end: number): boolean {
+    if (isWordChar(text[start]) && isWordChar(text[start - 1])) return false;
+    if (isWordChar(text[end - 1]) && isWordChar(text[end])) return false;
+    return true;
+  }
+
+  private insert(term: string, index: number): void {
+    if (!term) return;
+
+    let node = 0;
+    for (let i = 0; i < term.length; i++) {
+      const char = term[i]!;
+      let next = this.transitions[node]!.get(char);
+      if (next === undefined) {
+        next = this.transitions.length;
+        this.transitions.push(new Map());
+        this.failure.push(0);
+        this.outputs.push([]);
+        this.transitions[node]!.set(char, next);
+      }
+      node = next;
+    }
+    this.outputs[node]!.push(index);
+  }
+
+  /** Breadth-first, so every node's failure target is final before its children need it. */
+  private buildFailureLinks(): void {
+    const queue = [...this.transitions[0]!.values()];
+
+    for (let head = 0; head < queue.length; head++) {
+      const node = queue[head]!;
+      for (const [char, child] of this.transitions[node]!) {
+        let fallback = this.failure[node]!;
+        while (fallback !== 0 && !this.transitions[fallback]!.has(char)) {
+          fallback = this.failure[fallback]!;
+        }
+        const target = this.transitions[fallback]!.get(char);
+        this.failure[child] = target !== undefined && target !== child ? target : 0;
+        this.outputs[child]!.push(...this.outputs[this.failure[child]!]!);
+        queue.push(child);
+      }
+    }
+  }
+}
+
+function selectLeftmostLongest(hits: TermMatch[]): TermMatch[] {
+  const ordered = [...hits].sort((a, b) => a.start - b.start || b.end - a.end);
+  const selected: TermMatch[] = [];
+  let coveredUntil = 0;
+
+  for (const hit of ordered) {
+    if (hit.start >= coveredUntil) {
+      selected.push(hit);
+      coveredUntil = hit.end;
+    }
+  }
+  return selected;
+}
@@ -0,0 +1,189 @@
+import { stripImageMetadata } from './image-metadata.js';
+import type { OpenAiNonTextPart } from '../../shared/types/openai.types.js';
+import type { ResponsesContentPart } from '../../shared/types/openai-responses.types.js';
+import type { GeminiPart } from '../../shared/types/gemini.types.js';
+import type { AnthropicContentBlock } from '../../shared/types/anthropic.types.js';
+
+export type ContentPartKind = 'image' | 'audio' | 'file';
+
+/**
+ * - allow: forwarded as-is
+ * - strip: inline images are re-encoded without metadata; other parts are forwarded
+ * - drop: removed from the request
+ * - reject: the whole request is refused
+ */
+export type ContentPartAction = 'allow' | 'strip' | 'drop' | 'reject';
+
+export interface ContentPartConfig {
+  image: ContentPartAction;
+  audio: Exclude<ContentPartAction, 'strip'>;
+  file: Exclude<ContentPartAction, 'strip'>;
+  /** Largest decoded inline payload accepted, in bytes. */
+  maxBytes: number;
+}
+
+/** Raised when a part type is rejected by policy or an image cannot be processed. */
+export class ContentPartRejectedError extends Error {
+  readonly statusCode = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'ContentPartRejectedError';
+  }
+}
+
+/** Raised when an inline payload is over the size limit. */
+export class ContentPartTooLargeError extends Error {
+  readonly statusCode = 413;
+
+  constructor(kind: ContentPartKind, maxBytes: number) {
+    super(`An inline ${kind} part exceeds the ${maxBytes}-byte limit.`);
+    this.name = 'ContentPartTooLargeError';
+  }
+}
+
+/** Base64 payload with its media type. */
+interface InlineData {
+  mimeType: string;
+  data: string;
+}
+
+/** 'keep' forwards the part unchanged; inline data replaces the original payload. */
+type PartOutcome = 'keep' | 'drop' | InlineData;
+
+const DATA_URL = /^data:([^;,]+)[^,]*;base64,/i;
+
+function asRecord(value: unknown): Record<string, unknown> | undefined {
+  return value && typeof value === 'object' ? (value as Record<string, unknown>) : undefined;
+}
+
+function parseDataUrl(url: unknown): InlineData | null {
+  if (typeof url !== 'string') return null;
+  const match = DATA_URL.exec(url);
+  return match ? { mimeType: match[1]!.toLowerCase(), data: url.slice(match[0].length) } : null;
+}
+
+/** OpenAI `input_audio`: `{ data, format }` with a bare base64 payload. */
+function parseInputAudio(value: unknown): InlineData | null {
+  const audio = asRecord(value);
+  return typeof audio?.data === 'string'
+    ? { mimeType: `audio/${String(audio.format ?? 'wav')}`, data: audio.data }
+    : null;
+}
+
+function toDataUrl(inline: InlineData): string {
+  return `data:${inline.mimeType};base64,${inline.data}`;
+}
+
+function kindOf(mimeType: string | undefined): ContentPartKind {
+  if (mimeType?.startsWith('image/')) return 'image';
+  if (mimeType?.startsWith('audio/')) return 'audio';
+  return 'file';
+}
+
+/**
+ * Applies per-type policies to the non-text parts of requests: images,
+ * audio and files, inline (base64) or by reference. Referenced content is
+ * never fetched, so it can be allowed, dropped or rejected but not stripped.
+ * Part types the service does not recognize are passed through.
+ */
+export class ContentPartService {
+  private config: ContentPartConfig;
+
+  constructor(config: ContentPartConfig) {
+    this.config = config;
+  }
+
+  /** Chat Completions `image_url`, `input_audio` and `file` parts; null drops the part. */
+  async openAiPart(part: OpenAiNonTextPart): Promise<OpenAiNonTextPart | null> {
+    switch (part.type) {
+      case 'image_url': {
+        const imageUrl = asRecord(part.image_url);
+        const url = imageUrl ? imageUrl.url : part.image_url;
+        const outcome = await this.apply('image', parseDataUrl(url));
+        if (typeof outcome === 'string') return outcome === 'drop' ? null : part;
+        const replaced = toDataUrl(outcome);
+        return { ...part, image_url: imageUrl ? { ...imageUrl, url: replaced } : replaced };
+      }
+      case 'input_audio':
+        return (await this.apply('audio', parseInputAudio(part.input_audio))) === 'drop' ? null : part;
+      case 'file': {
+        const file = asRecord(part.file);
+        return (await this.apply('file', parseDataUrl(file?.file_data))) === 'drop' ? null : part;
+      }
+      default:
+        return part;
+    }
+  }
+
+  /** Responses API `input_image`, `input_audio` and `input_file` parts. */
+  async responsesPart(part: ResponsesContentPart): Promise<ResponsesContentPart | null> {
+    switch (part.type) {
+      case 'input_image': {
+        const outcome = await this.apply('image', parseDataUrl(part.image_url));
+        if (typeof outcome === 'string') return outcome === 'drop' ? null : part;
+        return { ...part, image_url: toDataUrl(outcome) };
+      }
+      case 'input_audio':
+        return (await this.apply('audio', parseInputAudio(part.input_audio))) === 'drop' ? null : part;
+      case 'input_file':
+        return (await this.apply('file', parseDataUrl(part.file_data))) === 'drop' ? null : part;
+      default:
+        return part;
+    }
+  }
+
+  /** Gemini `inlineData` and `fileData` parts, classified by MIME type. */
+  async geminiPart(part: GeminiPart): Promise<GeminiPart | null> {
+    if (part.inlineData && typeof part.inlineData.data === 'string') {
+      const inline = { mimeType: part.inlineData.mimeType, data: part.inlineData.data };
+      const outcome = await this.apply(kindOf(inline.mimeType), inline);
+      if (typeof outcome === 'string') return outcome === 'drop' ? null : part;
+      return { ...part, inlineData: { mimeType: outcome.mimeType, data: outcome.data } };
+    }
+
+    const fileData = asRecord(part.fileData);
+    if (fileData) {
+      const mimeType = typeof fileData.mimeType === 'string' ? fileData.mimeType : undefined;
+      return (await this.apply(kindOf(mimeType), null)) === 'drop' ? null : part;
+    }
+
+    return part;
+  }
+
+  /** Anthropic `image` and `document` blocks with base64 or URL sources. */
+  async anthropicBlock(block: AnthropicContentBlock): Promise<AnthropicContentBlock | null> {
+    if (block.type !== 'image' && block.type !== 'document') return block;
+
+    const source = asRecord(block.source);
+    const inline = source?.type === 'base64' && typeof source.data === 'string'
+      ? { mimeType: String(source.media_type ?? ''), data: source.data }
+      : null;
+
+    const outcome = await this.apply(block.type === 'image' ? 'image' : 'file', inline);
+    if (typeof outcome === 'string') return outcome === 'drop' ? null : block;
+    return { ...block, source: { ...source, media_type: outcome.mimeType, data: outcome.data } };
+  }
+
+  /** `inline` is null for parts that reference remote or uploaded content. */
+  private async apply(kind: ContentPartKind, inline: InlineData | null): Promise<PartOutcome> {
+    const action = this.config[kind];
+    if (action === 'reject') {
+      throw new ContentPartRejectedError(`Content parts of type "${kind}" are not allowed by the redaction policy.`);
+    }
+    if (action === 'drop') return 'drop';
+    if (!inline) return 'keep';
+
+    if (Buffer.byteLength(inline.data, 'base64') > this.config.maxBytes) {
+      throw new ContentPartTooLargeError(kind, this.config.maxBytes);
+    }
+    if (action !== 'strip' || kind !== 'image') return 'keep';
+
+    try {
+      const stripped = await stripImageMetadata(Buffer.from(inline.data, 'base64'));
+      return { mimeType: stripped.mimeType, data: stripped.data.toString('base64') };
+    } catch {
+      throw new ContentPartRejectedError('An inline image could not be decoded to strip its metadata.');
+    }
+  }
+}
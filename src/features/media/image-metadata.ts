@@ -0,0 +1,40 @@
+import sharp from 'sharp';
+
+/** Formats written back as themselves; anything else sharp can decode is converted to PNG. */
+const REENCODED_FORMATS: Record<string, string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  avif: 'image/avif',
+  tiff: 'image/tiff',
+};
+
+/**
+ * Decoding is refused above this many pixels (sharp's default is 268M). It
+ * covers 48 MP phone photos while keeping small, highly compressed images
+ * from decoding into gigabytes of memory.
+ */
+const MAX_INPUT_PIXELS = 50_000_000;
+
+export interface StrippedImage {
+  data: Buffer;
+  mimeType: string;
+}
+
+/**
+ * Decodes and re-encodes an image, which drops EXIF (GPS, device serials),
+ * XMP, IPTC and ICC metadata. EXIF orientation is applied to the pixels
+ * first so the image still displays the right way up.
+ */
+export async function stripImageMetadata(input: Buffer): Promise<StrippedImage> {
+  const image = sharp(input, { animated: true, limitInputPixels: MAX_INPUT_PIXELS });
+  const { format, pages } = await image.metadata();
+
+  // Auto-orientation is not supported for multi-page (animated) images
+  if (!pages || pages === 1) image.autoOrient();
+
+  const target = format && REENCODED_FORMATS[format] ? format : 'png';
+  const data = await image.toFormat(target as keyof sharp.FormatEnum).toBuffer();
+  return { data, mimeType: REENCODED_FORMATS[target]! };
+}
@@ -0,0 +1,8 @@
+export {
+  ContentPartService,
+  ContentPartRejectedError,
+  ContentPartTooLargeError,
+} from './content-part.service.js';
+export type { ContentPartAction, ContentPartConfig, ContentPartKind } from './content-part.service.js';
+export { stripImageMetadata } from './image-metadata.js';
+export type { StrippedImage } from './image-metadata.js';
@@ -0,0 +1,3 @@
+export { registerPiiRoutes } from './pii.routes.js';
+export { JsonPathError, formatJsonPath, parseJsonPath, selectStrings, setJsonValue } from './json-path.js';
+export type { PathKey, StringLocation } from './json-path.js';
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { JsonPathError, formatJsonPath, parseJsonPath, selectStrings, setJsonValue } from './json-path.js';
+
+const document = {
+  customer: {
+    name: 'Jane Doe',
+    emails: ['jane@example.com', 'j.doe@example.org'],
+    'billing address': { line1: '12 Main St', zip: 94107 },
+  },
+  notes: ["Call Jane's mobile"],
+};
+
+const paths = (expressions: string[]) => selectStrings(document, expressions).map((l) => formatJsonPath(l.path));
+
+describe('parseJsonPath', () => {
+  it('parses dot, bracket, index, wildcard and descendant segments', () => {
+    expect(parseJsonPath(`$.a['b c']["d\\"e"][2].*[*]..f..*`)).toEqual([
+      { kind: 'key', name: 'a', descendant: false },
+      { kind: 'key', name: 'b c', descendant: false },
+      { kind: 'key', name: 'd"e', descendant: false },
+      { kind: 'index', index: 2, descendant: false },
+      { kind: 'wildcard', descendant: false },
+      { kind: 'wildcard', descendant: false },
+      { kind: 'key', name: 'f', descendant: true },
+      { kind: 'wildcard', descendant: true },
+    ]);
+  });
+
+  it.each(['customer', '$.', '$[?(@.a)]', '$[0:2]', "$['a'", '$.a[b]'])('rejects %s', (expression) => {
+    expect(() => parseJsonPath(expression)).toThrow(JsonPathError);
+  });
+});
+
+describe('selectStrings', () => {
+  it('returns every string beneath a selected container, in document order', () => {
+    expect(paths(['$'])).toEqual([
+      '$.customer.name',
+      '$.customer.emails[0]',
+      '$.customer.emails[1]',
+      "$.customer['billing address'].line1",
+      '$.notes[0]',
+    ]);
+  });
+
+  it('selects by quoted key, index and wildcard', () => {
+    expect(paths(["$.customer['billing address'].*"])).toEqual(["$.customer['billing address'].line1"]);
+    expect(paths(['$.customer.emails[1]'])).toEqual(['$.customer.emails[1]']);
+    expect(paths(['$.notes[*]'])).toEqual(['$.notes[0]']);
+    expect(paths(['$.customer.emails[5]', '$.missing'])).toEqual([]);
+  });
+
+  it('finds keys at any depth with recursive descent', () => {
+    expect(paths(['$..line1', '$..emails[0]'])).toEqual([
+      "$.customer['billing address'].line1",
+      '$.customer.emails[0]',
+    ]);
+  });
+
+  it('lists each location once across overlapping expressions', () => {
+    expect(paths(['$.customer.emails', '$..*', '$.customer.name'])).toEqual([
+      '$.customer.emails[0]',
+      '$.customer.emails[1]',
+      '$.customer.name',
+      "$.customer['billing address'].line1",
+      '$.notes[0]',
+    ]);
+  });
+
+  it('walks deep documents under $..* without revisiting subtrees', () => {
+    let deep: unknown = 'bottom';
+    for (let i = 0; i < 2000; i++) deep = { next: deep, label: `level ${i}` };
+
+    expect(selectStrings(deep, ['$..*'])).toHaveLength(2001);
+  });
+
+  it('selects a root string document', () => {
+    expect(selectStrings('jane@example.com', ['$'])).toEqual([{ path: [], value: 'jane@example.com' }]);
+  });
+});
+
+describe('formatJsonPath', () => {
+  it('quotes keys that are not identifiers', () => {
+    expect(formatJsonPath(['a', 0, 'b c', "it's"])).toBe("$.a[0]['b c']['it\\'s']");
+  });
+});
+
+describe('setJsonValue', () => {
+  it('replaces a nested value in place', () => {
+    const target = structuredClone(document);
+
+    expect(setJsonValue(target, ['customer', 'emails', 1], '[EMAIL]')).toBe(target);
+    expect(target.customer.emails).toEqual(['jane@example.com', '[EMAIL]']);
+  });
+
+  it('returns the new value for a root string document', () => {
+    expect(setJsonValue('jane@example.com', [], '[EMAIL]')).toBe('[EMAIL]');
+  });
+});
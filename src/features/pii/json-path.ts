@@ -0,0 +1,202 @@
+export type PathKey = string | number;
+
+type Selector =
+  | { kind: 'key'; name: string }
+  | { kind: 'index'; index: number }
+  | { kind: 'wildcard' };
+
+type Segment = Selector & { descendant: boolean };
+
+/** A string value inside a document, with the keys leading to it from the root. */
+export interface StringLocation {
+  path: PathKey[];
+  value: string;
+}
+
+/** Raised for expressions outside the supported JSONPath subset. */
+export class JsonPathError extends Error {
+  readonly statusCode = 400;
+
+  constructor(expression: string, position: number) {
+    super(`Unsupported JSONPath "${expression}" at position ${position}`);
+    this.name = 'JsonPathError';
+  }
+}
+
+const IDENTIFIER = /^[A-Za-z_$][\w$-]*/;
+
+/**
+ * Parses the subset of JSONPath used for field selection: `$`, `.key`,
+ * `['key']`, `[0]`, `.*`, `[*]` and recursive descent (`..key`, `..*`).
+ * Filters, slices and unions are not supported.
+ */
+export function parseJsonPath(expression: string): Segment[] {
+  if (!expression.startsWith('$')) throw new JsonPathError(expression, 0);
+
+  const segments: Segment[] = [];
+  let i = 1;
+
+  while (i < expression.length) {
+    let descendant = false;
+    let dotted = false;
+
+    if (expression.startsWith('..', i)) {
+      descendant = true;
+      i += 2;
+    } else if (expression[i] === '.') {
+      dotted = true;
+      i += 1;
+    } else if (expression[i] !== '[') {
+      throw new JsonPathError(expression, i);
+    }
+
+    if (expression[i] === '[' && !dotted) {
+      const parsed = parseBracket(expression, i);
+      segments.push({ ...parsed.selector, descendant });
+      i = parsed.end;
+      continue;
+    }
+
+    // Dot notation: a wildcard or a bare identifier
+    if (expression[i] === '*') {
+      segments.push({ kind: 'wildcard', descendant });
+      i += 1;
+      continue;
+    }
+    const name = IDENTIFIER.exec(expression.slice(i))?.[0];
+    if (!name) throw new JsonPathError(expression, i);
+    segments.push({ kind: 'key', name, descendant });
+    i += name.length;
+  }
+
+  return segments;
+}
+
+function parseBracket(expression: string, open: number): { selector: Selector; end: number } {
+  let i = open + 1;
+  const quote = expression[i];
+
+  if (quote === "'" || quote === '"') {
+    let name = '';
+    i += 1;
+    while (i < expression.length && expression[i] !== quote) {
+      if (expression[i] === '\\') i += 1;
+      if (i >= expression.length) break;
+      name += expression[i];
+      i += 1;
+    }
+    if (expression[i] !== quote || expression[i + 1] !== ']') throw new JsonPathError(expression, i);
+    return { selector: { kind: 'key', name }, end: i + 2 };
+  }
+
+  const close = expression.indexOf(']', i);
+  if (close === -1) throw new JsonPathError(expression, open);
+  const inner = expression.slice(i, close);
+
+  if (inner === '*') return { selector: { kind: 'wildcard' }, end: close + 1 };
+  if (/^\d+$/.test(inner)) return { selector: { kind: 'index', index: Number(inner) }, end: close + 1 };
+  throw new JsonPathError(expression, i);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+interface Node {
+  path: PathKey[];
+  value: unknown;
+}
+
+function children(node: Node): Node[] {
+  if (Array.isArray(node.value)) {
+    return node.value.map((value, index) => ({ path: [...node.path, index], value }));
+  }
+  if (isRecord(node.value)) {
+    return Object.entries(node.value).map(([key, value]) => ({ path: [...node.path, key], value }));
+  }
+  return [];
+}
+
+/**
+ * The nodes and all their descendants, depth-first in document order. A
+ * subtree reached again (e.g. every node under `$..*`) is not re-walked.
+ */
+function subtrees(nodes: Node[]): Node[] {
+  const walked = new Set<unknown>();
+  const result: Node[] = [];
+
+  for (const node of nodes) {
+    const stack: Node[] = [node];
+    while (stack.length > 0) {
+      const next = stack.pop()!;
+      if (typeof next.value === 'object' && next.value !== null) {
+        if (walked.has(next.value)) continue;
+        walked.add(next.value);
+      }
+      result.push(next);
+      stack.push(...children(next).reverse());
+    }
+  }
+  return result;
+}
+
+function select(node: Node, selector: Selector): Node[] {
+  switch (selector.kind) {
+    case 'wildcard':
+      return children(node);
+    case 'index':
+      return Array.isArray(node.value) && selector.index < node.value.length
+        ? [{ path: [...node.path, selector.index], value: node.value[selector.index] }]
+        : [];
+    case 'key':
+      return isRecord(node.value) && Object.hasOwn(node.value, selector.name)
+        ? [{ path: [...node.path, selector.name], value: node.value[selector.name] }]
+        : [];
+  }
+}
+
+/**
+ * String values selected by any of the expressions. A selected object or
+ * array contributes every string beneath it; object keys are never
+ * returned. Each location appears once, in order of first selection.
+ */
+export function selectStrings(document: unknown, expressions: string[]): StringLocation[] {
+  const locations = new Map<string, StringLocation>();
+
+  for (const expression of expressions) {
+    let nodes: Node[] = [{ path: [], value: document }];
+    for (const segment of parseJsonPath(expression)) {
+      const scope = segment.descendant ? subtrees(nodes) : nodes;
+      nodes = scope.flatMap((node) => select(node, segment));
+    }
+
+    for (const node of subtrees(nodes)) {
+      if (typeof node.value !== 'string') continue;
+      const key = JSON.stringify(node.path);
+      if (!locations.has(key)) locations.set(key, { path: node.path, value: node.value });
+    }
+  }
+
+  return [...locations.values()];
+}
+
+/** Normalized JSONPath for a location, e.g. `$.customer.emails[0]`. */
+export function formatJsonPath(path: PathKey[]): string {
+  return path.reduce<string>((formatted, key) => {
+    if (typeof key === 'number') return `${formatted}[${key}]`;
+    if (IDENTIFIER.exec(key)?.[0] === key) return `${formatted}.${key}`;
+    return `${formatted}['${key.replace(/[\\']/g, '\\$&')}']`;
+  }, '$');
+}
+
+/** Replaces the value at `path` in place, returning the (possibly new) root. */
+export function setJsonValue(document: unknown, path: PathKey[], value: unknown): unknown {
+  if (path.length === 0) return value;
+
+  let parent = document as Record<PathKey, unknown>;
+  for (const key of path.slice(0, -1)) {
+    parent = parent[key] as Record<PathKey, unknown>;
+  }
+  parent[path[path.length - 1]!] = value;
+  return document;
+}
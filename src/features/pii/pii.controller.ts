@@ -0,0 +1,168 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { createAuditContext, resolveSession, setFindingsHeaders } from '../proxy/proxy.helpers.js';
+import { PiiFindings, type RedactionContext, type RedactionService } from '../redaction/index.js';
+import type { SessionService } from '../session/risk-engine.service.js';
+import type { PolicyService } from '../policy/index.js';
+import type { RedactionPolicy } from '../../shared/types/policy.types.js';
+import type { PiiEntity, PiiEntityType } from '../../shared/types/pii.types.js';
+import { formatJsonPath, selectStrings, setJsonValue } from './json-path.js';
+import { DEFAULT_JSON_PATHS, parsePiiRequest, type PiiInput } from './pii.schema.js';
+
+export interface PiiControllerDeps {
+  redactionService: RedactionService;
+  sessionService: SessionService;
+  policyService: PolicyService;
+}
+
+/**
+ * A detected span. `path` locates the string within a document input;
+ * offsets are into the original string.
+ */
+interface PiiSpan {
+  path?: string;
+  type: PiiEntityType;
+  start: number;
+  end: number;
+  confidence: number;
+  recognizer: string;
+}
+
+interface PreparedRequest {
+  sessionId: string;
+  policy: RedactionPolicy;
+  context: RedactionContext;
+  findings: PiiFindings;
+  batch: boolean;
+  inputs: PiiInput[];
+}
+
+/** Session admission, policy resolution and body validation shared by both endpoints. */
+async function prepare(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  deps: PiiControllerDeps
+): Promise<PreparedRequest | null> {
+  const policy = deps.policyService.resolve(request.headers);
+  const sessionId = await resolveSession(request, reply, deps.sessionService, policy);
+  if (!sessionId) return null;
+
+  const parsed = parsePiiRequest(request.body);
+  if (!parsed.success) {
+    reply.status(400).send({
+      error: 'Bad Request',
+      message: parsed.error.issues
+        .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+        .join('; '),
+      statusCode: 400,
+    });
+    return null;
+  }
+
+  const findings = new PiiFindings();
+  return {
+    sessionId,
+    policy,
+    context: { policy, audit: createAuditContext(request, sessionId), findings },
+    findings,
+    batch: parsed.batch,
+    inputs: parsed.inputs,
+  };
+}
+
+function toSpan(entity: PiiEntity, path?: string): PiiSpan {
+  return {
+    ...(path !== undefined ? { path } : {}),
+    type: entity.type,
+    start: entity.start,
+    end: entity.end,
+    confidence: Math.round(entity.confidence * 1000) / 1000,
+    recognizer: entity.recognizer,
+  };
+}
+
+function send(reply: FastifyReply, prepared: PreparedRequest, results: unknown[]): void {
+  setFindingsHeaders(reply, prepared.policy, prepared.findings);
+  reply.send(prepared.batch ? { results } : results[0]);
+}
+
+/**
+ * Returns the PII spans in text or in the selected document fields, after
+ * the caller's policy thresholds. Detections count toward session risk.
+ */
+export async function handlePiiDetect(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  deps: PiiControllerDeps
+): Promise<void> {
+  const prepared = await prepare(request, reply, deps);
+  if (!prepared) return;
+  const { redactionService, sessionService } = deps;
+
+  const inspect = async (text: string) => {
+    const { entities } = await redactionService.inspect(text, prepared.context);
+    if (entities.length > 0) {
+      await sessionService.assessRisk(prepared.sessionId, entities);
+    }
+    return entities;
+  };
+
+  const results: Array<{ entities: PiiSpan[] }> = [];
+  for (const input of prepared.inputs) {
+    if (input.text !== undefined) {
+      results.push({ entities: (await inspect(input.text)).map((entity) => toSpan(entity)) });
+      continue;
+    }
+
+    const spans: PiiSpan[] = [];
+    for (const location of selectStrings(input.document, input.paths ?? DEFAULT_JSON_PATHS)) {
+      const path = formatJsonPath(location.path);
+      spans.push(...(await inspect(location.value)).map((entity) => toSpan(entity, path)));
+    }
+    results.push({ entities: spans });
+  }
+
+  send(reply, prepared, results);
+}
+
+/**
+ * Redacts text, or the selected fields of a document with its structure
+ * left intact, exactly as the proxy redacts prompts: the caller's policy
+ * applies (including blocking and shadow mode), and events are audited.
+ */
+export async function handlePiiRedact(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  deps: PiiControllerDeps
+): Promise<void> {
+  const prepared = await prepare(request, reply, deps);
+  if (!prepared) return;
+  const { redactionService, sessionService } = deps;
+
+  const redact = async (text: string) => {
+    const result = await redactionService.redact(text, prepared.context);
+    if (result.entities.length > 0) {
+      await sessionService.assessRisk(prepared.sessionId, result.entities);
+    }
+    return result;
+  };
+
+  const results: Array<{ text: string; entities: PiiSpan[] } | { document: unknown; entities: PiiSpan[] }> = [];
+  for (const input of prepared.inputs) {
+    if (input.text !== undefined) {
+      const result = await redact(input.text);
+      results.push({ text: result.text, entities: result.entities.map((entity) => toSpan(entity)) });
+      continue;
+    }
+
+    let document: unknown = structuredClone(input.document);
+    const spans: PiiSpan[] = [];
+    for (const location of selectStrings(document, input.paths ?? DEFAULT_JSON_PATHS)) {
+      const result = await redact(location.value);
+      document = setJsonValue(document, location.path, result.text);
+      spans.push(...result.entities.map((entity) => toSpan(entity, formatJsonPath(location.path))));
+    }
+    results.push({ document, entities: spans });
+  }
+
+  send(reply, prepared, results);
+}
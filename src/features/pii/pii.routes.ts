@@ -0,0 +1,16 @@
+import type { FastifyInstance } from 'fastify';
+import { handlePiiDetect, handlePiiRedact } from './pii.controller.js';
+
+/** Standalone detection and redaction for text and JSON documents, outside any LLM call. */
+export async function registerPiiRoutes(app: FastifyInstance): Promise<void> {
+  const { redactionService, sessionService, policyService } = app.deps;
+  const controllerDeps = { redactionService, sessionService, policyService };
+
+  app.post('/v1/pii/detect', async (request, reply) => {
+    await handlePiiDetect(request, reply, controllerDeps);
+  });
+
+  app.post('/v1/pii/redact', async (request, reply) => {
+    await handlePiiRedact(request, reply, controllerDeps);
+  });
+}
@@ -0,0 +1,60 @@
+import { z } from 'zod';
+import { JsonPathError, parseJsonPath } from './json-path.js';
+
+const MAX_BATCH_SIZE = 100;
+const MAX_PATHS = 100;
+
+/** Every string in the document. */
+export const DEFAULT_JSON_PATHS = ['$'];
+
+const jsonPathSchema = z
+  .string()
+  .min(1)
+  .max(512)
+  .superRefine((expression, ctx) => {
+    try {
+      parseJsonPath(expression);
+    } catch (error) {
+      if (!(error instanceof JsonPathError)) throw error;
+      ctx.addIssue({ code: 'custom', message: error.message });
+    }
+  });
+
+/** Either plain `text`, or a JSON `document` with optional `paths` selecting the fields to scan. */
+export const piiInputSchema = z
+  .object({
+    text: z.string().optional(),
+    document: z.json().optional(),
+    paths: z.array(jsonPathSchema).min(1).max(MAX_PATHS).optional(),
+  })
+  .strict()
+  .superRefine((input, ctx) => {
+    if ((input.text === undefined) === (input.document === undefined)) {
+      ctx.addIssue({ code: 'custom', message: 'Exactly one of "text" or "document" is required' });
+    }
+    if (input.paths && input.document === undefined) {
+      ctx.addIssue({ code: 'custom', path: ['paths'], message: '"paths" only applies to "document"' });
+    }
+  });
+
+export const piiBatchSchema = z
+  .object({
+    inputs: z.array(piiInputSchema).min(1).max(MAX_BATCH_SIZE),
+  })
+  .strict();
+
+export type PiiInput = z.infer<typeof piiInputSchema>;
+
+/** A body is a single input, or a batch of them under `inputs`. */
+export function parsePiiRequest(
+  body: unknown
+): { success: true; batch: boolean; inputs: PiiInput[] } | { success: false; error: z.ZodError } {
+  const batch = typeof body === 'object' && body !== null && 'inputs' in body;
+  if (batch) {
+    const parsed = piiBatchSchema.safeParse(body);
+    return parsed.success ? { success: true, batch, inputs: parsed.data.inputs } : parsed;
+  }
+
+  const parsed = piiInputSchema.safeParse(body);
+  return parsed.success ? { success: true, batch, inputs: [parsed.data] } : parsed;
+}
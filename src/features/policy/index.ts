@@ -0,0 +1,3 @@
+export { PolicyService, DEFAULT_TENANT_ID } from './policy.service.js';
+export { loadPolicyFile, PolicyValidationError } from './policy.loader.js';
+export type { PolicyFile, TenantPolicyDefinition } from './policy.schema.js';
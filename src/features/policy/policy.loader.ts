@@ -0,0 +1,38 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import { policyFileSchema, type PolicyFile } from './policy.schema.js';
+
+export class PolicyValidationError extends Error {
+  readonly issues: string[];
+
+  constructor(filePath: string, issues: string[]) {
+    super(`Invalid policy file ${filePath}:\n${issues.map((issue) => `   - ${issue}`).join('\n')}`);
+    this.name = 'PolicyValidationError';
+    this.issues = issues;
+  }
+}
+
+/** Reads and validates a JSON or YAML policy document. */
+export async function loadPolicyFile(filePath: string): Promise<PolicyFile> {
+  const raw = await readFile(filePath, 'utf-8');
+  const ext = path.extname(filePath).toLowerCase();
+
+  let document: unknown;
+  try {
+    document = ext === '.yaml' || ext === '.yml' ? parseYaml(raw) : JSON.parse(raw);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new PolicyValidationError(filePath, [`parse error: ${reason}`]);
+  }
+
+  const result = policyFileSchema.safeParse(document ?? {});
+  if (!result.success) {
+    throw new PolicyValidationError(
+      filePath,
+      result.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    );
+  }
+
+  return result.data;
+}
@@ -0,0 +1,49 @@
+import { z } from 'zod';
+import { PII_ENTITY_TYPES } from '../../shared/types/pii.types.js';
+import { REDACTION_ACTIONS, REDACTION_MODES } from '../../shared/types/policy.types.js';
+
+const actionSchema = z.enum(REDACTION_ACTIONS);
+
+const policyRulesSchema = z
+  .object({
+    mode: z.enum(REDACTION_MODES).optional(),
+    defaultAction: actionSchema.optional(),
+    entities: z.partialRecord(z.enum(PII_ENTITY_TYPES), actionSchema).optional(),
+    minConfidence: z.number().min(0).max(1).optional(),
+    minConfidenceByType: z.partialRecord(z.enum(PII_ENTITY_TYPES), z.number().min(0).max(1)).optional(),
+    failStrategy: z.enum(['closed', 'open']).optional(),
+  })
+  .strict();
+
+const tenantPolicySchema = policyRulesSchema
+  .extend({
+    apiKeys: z.array(z.string().min(1)).default([]),
+  })
+  .strict();
+
+export const policyFileSchema = z
+  .object({
+    default: policyRulesSchema.optional(),
+    tenants: z.record(z.string().min(1), tenantPolicySchema).default({}),
+  })
+  .strict()
+  .superRefine((file, ctx) => {
+    const owners = new Map<string, string>();
+    for (const [tenantId, tenant] of Object.entries(file.tenants)) {
+      for (const [i, apiKey] of tenant.apiKeys.entries()) {
+        const owner = owners.get(apiKey);
+        if (owner) {
+          ctx.addIssue({
+            code: 'custom',
+            path: ['tenants', tenantId, 'apiKeys', i],
+            message: `API key is already assigned to tenant "${owner}"`,
+          });
+        }
+        owners.set(apiKey, tenantId);
+      }
+    }
+  });
+
+export type PolicyRules = z.infer<typeof policyRulesSchema>;
+export type TenantPolicyDefinition = z.infer<typeof tenantPolicySchema>;
+export type PolicyFile = z.infer<typeof policyFileSchema>;
@@ -0,0 +1,86 @@
+import type { PolicyFile, PolicyRules } from './policy.schema.js';
+import type { RedactionPolicy } from '../../shared/types/policy.types.js';
+
+export const DEFAULT_TENANT_ID = 'default';
+
+/**
+ * Resolves the redaction policy for a request from its API key.
+ * Unknown or missing keys fall back to the default policy.
+ */
+export class PolicyService {
+  private defaultPolicy: RedactionPolicy;
+  private policiesByKey = new Map<string, RedactionPolicy>();
+  private policiesByTenant = new Map<string, RedactionPolicy>();
+
+  constructor(
+    file: PolicyFile | null,
+    fallback: Pick<RedactionPolicy, 'failStrategy'> &
+      Partial<Pick<RedactionPolicy, 'mode' | 'minConfidence' | 'minConfidenceByType'>>
+  ) {
+    const base: RedactionPolicy = {
+      tenantId: DEFAULT_TENANT_ID,
+      mode: fallback.mode ?? 'enforce',
+      defaultAction: 'pseudonymize',
+      actions: {},
+      minConfidence: fallback.minConfidence ?? 0,
+      minConfidenceByType: fallback.minConfidenceByType ?? {},
+      failStrategy: fallback.failStrategy,
+    };
+
+    this.defaultPolicy = applyRules(base, file?.default);
+    this.policiesByTenant.set(DEFAULT_TENANT_ID, this.defaultPolicy);
+
+    for (const [tenantId, tenant] of Object.entries(file?.tenants ?? {})) {
+      const policy = applyRules({ ...this.defaultPolicy, tenantId }, tenant);
+      this.policiesByTenant.set(tenantId, policy);
+      for (const apiKey of tenant.apiKeys) {
+        this.policiesByKey.set(apiKey, policy);
+      }
+    }
+  }
+
+  resolve(headers: Record<string, string | string[] | undefined>): RedactionPolicy {
+    const apiKey = extractApiKey(headers);
+    return (apiKey && this.policiesByKey.get(apiKey)) || this.defaultPolicy;
+  }
+
+  getTenantPolicy(tenantId: string): RedactionPolicy | undefined {
+    return this.policiesByTenant.get(tenantId);
+  }
+
+  get tenantCount(): number {
+    return this.policiesByTenant.size - 1;
+  }
+}
+
+/**
+ * Layers `rules` over `base`. A threshold set at this layer, per type or
+ * global, outranks every threshold inherited from below, so a layer's
+ * `minConfidence` also replaces the per-type values it inherits.
+ */
+function applyRules(base: RedactionPolicy, rules: PolicyRules | undefined): RedactionPolicy {
+  if (!rules) return base;
+  const inheritedByType = rules.minConfidence === undefined ? base.minConfidenceByType : {};
+
+  return {
+    tenantId: base.tenantId,
+    mode: rules.mode ?? base.mode,
+    defaultAction: rules.defaultAction ?? base.defaultAction,
+    actions: { ...base.actions, ...rules.entities },
+    minConfidence: rules.minConfidence ?? base.minConfidence,
+    minConfidenceByType: { ...inheritedByType, ...rules.minConfidenceByType },
+    failStrategy: rules.failStrategy ?? base.failStrategy,
+  };
+}
+
+function extractApiKey(headers: Record<string, string | string[] | undefined>): string | null {
+  const first = (value: string | string[] | undefined) => (Array.isArray(value) ? value[0] : value);
+
+  const apiKey = first(headers['x-api-key']);
+  if (apiKey) return apiKey;
+
+  const auth = first(headers['authorization']);
+  if (auth?.startsWith('Bearer ')) return auth.slice(7).trim();
+
+  return null;
+}
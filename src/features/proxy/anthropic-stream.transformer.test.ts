@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import type { RedactionService } from '../redaction/index.js';
+import { AnthropicRedactionStream } from './anthropic-stream.transformer.js';
+
+/** Redacts "Bob" after a delay long enough for later events to arrive mid-flush. */
+function createSlowRedactionService(delayMs: number): RedactionService {
+  return {
+    redact: async (text: string) => {
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+      return { text: text.replace(/Bob/g, 'Tom'), entities: [] };
+    },
+  } as unknown as RedactionService;
+}
+
+function event(type: string, data: Record<string, unknown>): string {
+  return `event: ${type}\ndata: ${JSON.stringify({ type, ...data })}\n\n`;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('AnthropicRedactionStream', () => {
+  it('emits text from an in-flight timer flush before content_block_stop and message_stop', async () => {
+    const stream = new AnthropicRedactionStream(createSlowRedactionService(50), { maxDelayMs: 10, maxTokens: 1000 });
+    let output = '';
+    stream.on('data', (data: Buffer) => {
+      output += data.toString();
+    });
+    const ended = new Promise<void>((resolve, reject) => {
+      stream.on('end', resolve);
+      stream.on('error', reject);
+    });
+
+    stream.write(event('content_block_delta', { index: 0, delta: { type: 'text_delta', text: 'hi Bob' } }));
+    // The timer fires and its redaction is still pending when the stop events arrive
+    await sleep(20);
+    stream.write(event('content_block_stop', { index: 0 }));
+    stream.write(event('message_stop', {}));
+    stream.end();
+    await ended;
+
+    const types = output
+      .split('\n')
+      .filter((line) => line.startsWith('data:'))
+      .map((line) => JSON.parse(line.slice(5)) as { type: string; delta?: { text?: string } });
+    expect(types.map((e) => e.type)).toEqual(['content_block_delta', 'content_block_stop', 'message_stop']);
+    expect(types[0]!.delta?.text).toBe('hi Tom');
+  });
+});
@@ -0,0 +1,184 @@
+import { Transform, TransformCallback } from 'node:stream';
+import type { RedactionService } from '../redaction/index.js';
+import type { StreamTransformerOptions } from './stream.transformer.js';
+import type { AnthropicStreamEvent } from '../../shared/types/anthropic.types.js';
+
+const DEFAULT_OPTIONS: StreamTransformerOptions = {
+  maxTokens: 20,
+  maxDelayMs: 200,
+};
+
+const SENTENCE_BOUNDARY = /[.!?]\s+|[.!?]$/;
+
+interface BlockBuffer {
+  text: string;
+  tokenCount: number;
+}
+
+/**
+ * Redacts Anthropic Messages SSE streams. `text_delta` events are buffered
+ * per content block and re-emitted redacted; pending text is always flushed
+ * before that block's `content_block_stop` and before `message_delta`.
+ */
+export class AnthropicRedactionStream extends Transform {
+  private buffers = new Map<number, BlockBuffer>();
+  private redactionService: RedactionService;
+  private options: StreamTransformerOptions;
+  private eventBuffer = '';
+  private lastFlushTime = Date.now();
+  private flushTimer: NodeJS.Timeout | null = null;
+  /** Flushes from events and the timer run one after another, in order. */
+  private flushQueue: Promise<void> = Promise.resolve();
+
+  constructor(redactionService: RedactionService, options: Partial<StreamTransformerOptions> = {}) {
+    super({ objectMode: false });
+    this.redactionService = redactionService;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  async _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): Promise<void> {
+    try {
+      this.eventBuffer += chunk.toString('utf-8').replace(/\r\n/g, '\n');
+
+      const events = this.eventBuffer.split('\n\n');
+      this.eventBuffer = events.pop() ?? '';
+
+      for (const rawEvent of events) {
+        if (rawEvent.trim()) {
+          await this.handleEvent(rawEvent);
+        }
+      }
+
+      this.scheduleFlush();
+      callback();
+    } catch (error) {
+      callback(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  async _flush(callback: TransformCallback): Promise<void> {
+    try {
+      if (this.flushTimer) {
+        clearTimeout(this.flushTimer);
+      }
+      await this.flushQueue;
+      if (this.eventBuffer.trim()) {
+        await this.handleEvent(this.eventBuffer);
+        this.eventBuffer = '';
+      }
+      await this.flushAll();
+      callback();
+    } catch (error) {
+      callback(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  private async handleEvent(rawEvent: string): Promise<void> {
+    // A timer flush still redacting must emit its delta before anything that follows
+    await this.flushQueue;
+
+    const dataLines = rawEvent
+      .split('\n')
+      .filter((line) => line.startsWith('data:'))
+      .map((line) => line.slice(5).trim());
+
+    let event: AnthropicStreamEvent;
+    try {
+      event = JSON.parse(dataLines.join('\n')) as AnthropicStreamEvent;
+    } catch {
+      this.push(`${rawEvent}\n\n`);
+      return;
+    }
+
+    const delta = event.delta as { type?: string; text?: unknown } | undefined;
+
+    if (event.type === 'content_block_delta' && delta?.type === 'text_delta' && typeof delta.text === 'string') {
+      const index = event.index ?? 0;
+      const buffer = this.buffers.get(index) ?? { text: '', tokenCount: 0 };
+      this.buffers.set(index, buffer);
+
+      buffer.text += delta.text;
+      buffer.tokenCount += Math.ceil(delta.text.length / 4);
+
+      if (this.shouldFlush(buffer)) {
+        await this.flushBlock(index);
+      }
+      return;
+    }
+
+    if (event.type === 'content_block_stop') {
+      await this.flushBlock(event.index ?? 0);
+      this.buffers.delete(event.index ?? 0);
+    } else if (event.type === 'message_delta' || event.type === 'message_stop' || event.type === 'error') {
+      await this.flushAll();
+    }
+
+    this.push(`${rawEvent}\n\n`);
+  }
+
+  private shouldFlush(buffer: BlockBuffer): boolean {
+    return (
+      SENTENCE_BOUNDARY.test(buffer.text) ||
+      buffer.tokenCount >= this.options.maxTokens ||
+      Date.now() - this.lastFlushTime >= this.options.maxDelayMs
+    );
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+    }
+
+    const pending = [...this.buffers.values()].some((buffer) => buffer.text.length > 0);
+    if (pending) {
+      this.flushTimer = setTimeout(() => {
+        this.flushAll().catch((err) => {
+          this.emit('error', err);
+        });
+      }, this.options.maxDelayMs);
+    }
+  }
+
+  private async flushAll(): Promise<void> {
+    for (const index of this.buffers.keys()) {
+      await this.flushBlock(index);
+    }
+  }
+
+  /** Queues a block flush behind any in flight, so its text is out once it resolves. */
+  private flushBlock(index: number): Promise<void> {
+    const flush = this.flushQueue.then(() => this.emitPending(index));
+    this.flushQueue = flush.catch(() => undefined);
+    return flush;
+  }
+
+  /** Redacts a block's buffered text and emits it as a single text_delta event. */
+  private async emitPending(index: number): Promise<void> {
+    const buffer = this.buffers.get(index);
+    if (!buffer || buffer.text.length === 0) return;
+
+    const textToProcess = buffer.text;
+    buffer.text = '';
+    buffer.tokenCount = 0;
+    this.lastFlushTime = Date.now();
+
+    const result = await this.redactionService.redact(textToProcess, {
+      policy: this.options.policy,
+      direction: 'response',
+      audit: this.options.audit,
+    });
+    const event = {
+      type: 'content_block_delta',
+      index,
+      delta: { type: 'text_delta', text: result.text },
+    };
+    this.push(`event: content_block_delta\ndata: ${JSON.stringify(event)}\n\n`);
+  }
+}
+
+export function createAnthropicRedactionStream(
+  redactionService: RedactionService,
+  options?: Partial<StreamTransformerOptions>
+): AnthropicRedactionStream {
+  return new AnthropicRedactionStream(redactionService, options);
+}
@@ -0,0 +1,172 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { pipeline } from 'node:stream/promises';
+import { PassThrough } from 'node:stream';
+import { createAnthropicRedactionStream } from './anthropic-stream.transformer.js';
+import {
+  createAuditContext,
+  createTextRedactor,
+  forwardUpstreamHeaders,
+  pumpWebStream,
+  resolveSession,
+  sendUpstreamError,
+  setFindingsHeaders,
+  writeStreamHead,
+} from './proxy.helpers.js';
+import { env } from '../../infrastructure/config/env.js';
+import { activeStreams, upstreamResponses } from '../../infrastructure/metrics/metrics.js';
+import type { ProxyControllerDeps } from './proxy.controller.js';
+import { PiiFindings } from '../redaction/index.js';
+import { upstreamKeyFor } from '../credentials/index.js';
+import {
+  BlockPolicyError,
+  isTextBlock,
+  redactAnthropicContent,
+  type AnthropicMessage,
+  type AnthropicMessagesRequest,
+  type AnthropicMessagesResponse,
+} from '../../shared/types/anthropic.types.js';
+import { REDACTION_CONCURRENCY, mapConcurrent } from '../../shared/utils/concurrency.js';
+
+const DEFAULT_ANTHROPIC_VERSION = '2023-06-01';
+
+/** Handles Anthropic Messages API requests, streaming or not. */
+export async function handleMessages(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  deps: ProxyControllerDeps
+): Promise<void> {
+  const { redactionService, sessionService, policyService } = deps;
+
+  const policy = policyService.resolve(request.headers);
+  const sessionId = await resolveSession(request, reply, sessionService, policy);
+  if (!sessionId) return;
+  const credentials = await deps.credentialService.resolve(request.headers);
+
+  const body = request.body as AnthropicMessagesRequest;
+  if (!body?.messages || !Array.isArray(body.messages)) {
+    reply.status(400).send({
+      error: 'Bad Request',
+      message: 'Body must include "messages" array.',
+    });
+    return;
+  }
+
+  const audit = createAuditContext(request, sessionId);
+  const findings = new PiiFindings();
+  const redactText = createTextRedactor(redactionService, sessionService, sessionId, { policy, audit, findings });
+  const redactOutput = createTextRedactor(redactionService, sessionService, sessionId, {
+    policy,
+    audit,
+    findings,
+    direction: 'response',
+  });
+
+  let messages: AnthropicMessage[];
+  let system: AnthropicMessagesRequest['system'];
+  try {
+    messages = await mapConcurrent(body.messages, REDACTION_CONCURRENCY, async (message) => ({
+      ...message,
+      content: await redactAnthropicContent(
+        message.content,
+        redactText,
+        env.ANTHROPIC_BLOCK_POLICY,
+        (block) => deps.contentPartService.anthropicBlock(block)
+      ),
+    }));
+    system = await redactSystem(body.system, redactText);
+  } catch (error) {
+    if (error instanceof BlockPolicyError) {
+      reply.status(400).send({
+        error: 'Bad Request',
+        message: error.message,
+      });
+      return;
+    }
+    throw error;
+  }
+
+  const upstreamUrl = `${env.ANTHROPIC_UPSTREAM_URL.replace(/\/$/, '')}/messages`;
+  const versionHeader = request.headers['anthropic-version'];
+  const betaHeader = request.headers['anthropic-beta'];
+  const apiKey = upstreamKeyFor(credentials, 'anthropic', env.ANTHROPIC_API_KEY);
+
+  const upstreamResponse = await fetch(upstreamUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'anthropic-version': typeof versionHeader === 'string' ? versionHeader : DEFAULT_ANTHROPIC_VERSION,
+      ...(typeof betaHeader === 'string' ? { 'anthropic-beta': betaHeader } : {}),
+      ...(apiKey ? { 'x-api-key': apiKey } : {}),
+    },
+    body: JSON.stringify({
+      ...body,
+      messages,
+      ...(system !== undefined ? { system } : {}),
+    }),
+  });
+
+  upstreamResponses.inc({ provider: 'anthropic', status: String(upstreamResponse.status) });
+  forwardUpstreamHeaders(reply, upstreamResponse);
+  setFindingsHeaders(reply, policy, findings);
+
+  if (!upstreamResponse.ok) {
+    await sendUpstreamError(reply, upstreamResponse);
+    return;
+  }
+
+  if (!body.stream) {
+    const responseData = (await upstreamResponse.json()) as AnthropicMessagesResponse;
+    if (Array.isArray(responseData.content)) {
+      // Model output blocks other than text (tool_use, thinking) are passed through
+      responseData.content = (await redactAnthropicContent(
+        responseData.content,
+        redactOutput,
+        'allow'
+      )) as AnthropicMessagesResponse['content'];
+    }
+    setFindingsHeaders(reply, policy, findings);
+    reply.send(responseData);
+    return;
+  }
+
+  if (!upstreamResponse.body) {
+    reply.status(502).send({
+      error: 'Bad Gateway',
+      message: 'No response body from upstream',
+    });
+    return;
+  }
+
+  writeStreamHead(reply);
+
+  const redactionStream = createAnthropicRedactionStream(redactionService, { policy, audit });
+  const passthrough = new PassThrough();
+  pumpWebStream(upstreamResponse.body, passthrough);
+
+  activeStreams.inc({ provider: 'anthropic' });
+  try {
+    await pipeline(passthrough, redactionStream, reply.raw);
+  } catch (error) {
+    request.log.error(error, 'Anthropic stream pipeline error');
+    if (!reply.raw.headersSent) {
+      reply.status(500).send({
+        error: 'Stream Error',
+        message: 'Error processing stream',
+      });
+    }
+  } finally {
+    activeStreams.dec({ provider: 'anthropic' });
+  }
+}
+
+async function redactSystem(
+  system: AnthropicMessagesRequest['system'],
+  redactText: (text: string) => Promise<string>
+): Promise<AnthropicMessagesRequest['system']> {
+  if (system === undefined) return undefined;
+  if (typeof system === 'string') return redactText(system);
+
+  return mapConcurrent(system, REDACTION_CONCURRENCY, async (block) =>
+    isTextBlock(block) ? { ...block, text: await redactText(block.text) } : block
+  );
+}
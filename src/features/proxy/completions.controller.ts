@@ -0,0 +1,138 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { pipeline } from 'node:stream/promises';
+import { PassThrough } from 'node:stream';
+import { createRedactionStream } from './stream.transformer.js';
+import {
+  createAuditContext,
+  createTextRedactor,
+  forwardUpstreamHeaders,
+  pumpWebStream,
+  resolveSession,
+  sendUpstreamError,
+  setFindingsHeaders,
+  writeStreamHead,
+} from './proxy.helpers.js';
+import { env } from '../../infrastructure/config/env.js';
+import { activeStreams, upstreamResponses } from '../../infrastructure/metrics/metrics.js';
+import type { ProxyControllerDeps } from './proxy.controller.js';
+import { PiiFindings } from '../redaction/index.js';
+import {
+  TokenInputPolicyError,
+  isTextOrTokens,
+  redactTextOrTokens,
+  type OpenAiTextOrTokens,
+} from '../../shared/types/openai.types.js';
+import type {
+  OpenAiCompletionRequest,
+  OpenAiCompletionResponse,
+} from '../../shared/types/openai-completions.types.js';
+import { REDACTION_CONCURRENCY, mapConcurrent } from '../../shared/utils/concurrency.js';
+
+/** Handles legacy OpenAI text completions (`/v1/completions`), streaming or not. */
+export async function handleCompletions(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  deps: ProxyControllerDeps
+): Promise<void> {
+  const { redactionService, sessionService, policyService } = deps;
+
+  const policy = policyService.resolve(request.headers);
+  const sessionId = await resolveSession(request, reply, sessionService, policy);
+  if (!sessionId) return;
+  const credentials = await deps.credentialService.resolve(request.headers);
+
+  const body = request.body as OpenAiCompletionRequest;
+  if (!isTextOrTokens(body?.prompt)) {
+    reply.status(400).send({
+      error: 'Bad Request',
+      message: 'Body "prompt" must be a string, an array of strings, or token arrays.',
+    });
+    return;
+  }
+
+  const audit = createAuditContext(request, sessionId);
+  const findings = new PiiFindings();
+  const redactText = createTextRedactor(redactionService, sessionService, sessionId, { policy, audit, findings });
+  const redactOutput = createTextRedactor(redactionService, sessionService, sessionId, {
+    policy,
+    audit,
+    findings,
+    direction: 'response',
+  });
+
+  let prompt: OpenAiTextOrTokens;
+  try {
+    prompt = await redactTextOrTokens(body.prompt, redactText, env.TOKEN_INPUT_POLICY);
+  } catch (error) {
+    if (error instanceof TokenInputPolicyError) {
+      reply.status(400).send({
+        error: 'Bad Request',
+        message: error.message,
+      });
+      return;
+    }
+    throw error;
+  }
+  const suffix = typeof body.suffix === 'string' ? await redactText(body.suffix) : body.suffix;
+
+  const upstreamResponse = await deps.upstreamRouter.post(
+    body.model,
+    '/completions',
+    JSON.stringify({
+      ...body,
+      prompt,
+      ...(suffix !== undefined ? { suffix } : {}),
+    }),
+    credentials
+  );
+
+  upstreamResponses.inc({ provider: 'openai', status: String(upstreamResponse.status) });
+  forwardUpstreamHeaders(reply, upstreamResponse);
+  setFindingsHeaders(reply, policy, findings);
+
+  if (!upstreamResponse.ok) {
+    await sendUpstreamError(reply, upstreamResponse);
+    return;
+  }
+
+  if (!body.stream) {
+    const responseData = (await upstreamResponse.json()) as OpenAiCompletionResponse;
+    if (Array.isArray(responseData.choices)) {
+      responseData.choices = await mapConcurrent(responseData.choices, REDACTION_CONCURRENCY, async (choice) =>
+        typeof choice?.text === 'string' ? { ...choice, text: await redactOutput(choice.text) } : choice
+      );
+    }
+    setFindingsHeaders(reply, policy, findings);
+    reply.send(responseData);
+    return;
+  }
+
+  if (!upstreamResponse.body) {
+    reply.status(502).send({
+      error: 'Bad Gateway',
+      message: 'No response body from upstream',
+    });
+    return;
+  }
+
+  writeStreamHead(reply);
+
+  const redactionStream = createRedactionStream(redactionService, { policy, audit });
+  const passthrough = new PassThrough();
+  pumpWebStream(upstreamResponse.body, passthrough);
+
+  activeStreams.inc({ provider: 'openai' });
+  try {
+    await pipeline(passthrough, redactionStream, reply.raw);
+  } catch (error) {
+    request.log.error(error, 'Completions stream pipeline error');
+    if (!reply.raw.headersSent) {
+      reply.status(500).send({
+        error: 'Stream Error',
+        message: 'Error processing stream',
+      });
+    }
+  } finally {
+    activeStreams.dec({ provider: 'openai' });
+  }
+}
@@ -0,0 +1,82 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import {
+  createAuditContext,
+  createTextRedactor,
+  forwardUpstreamHeaders,
+  resolveSession,
+  sendUpstreamError,
+  setFindingsHeaders,
+} from './proxy.helpers.js';
+import { env } from '../../infrastructure/config/env.js';
+import { upstreamResponses } from '../../infrastructure/metrics/metrics.js';
+import type { ProxyControllerDeps } from './proxy.controller.js';
+import { PiiFindings } from '../redaction/index.js';
+import {
+  TokenInputPolicyError,
+  isTextOrTokens,
+  redactTextOrTokens,
+  type OpenAiTextOrTokens,
+  type OpenAiEmbeddingsRequest,
+} from '../../shared/types/openai.types.js';
+
+/** Handles OpenAI-compatible embeddings requests; only the input is redacted. */
+export async function handleEmbeddings(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  deps: ProxyControllerDeps
+): Promise<void> {
+  const { redactionService, sessionService, policyService } = deps;
+
+  const policy = policyService.resolve(request.headers);
+  const sessionId = await resolveSession(request, reply, sessionService, policy);
+  if (!sessionId) return;
+  const credentials = await deps.credentialService.resolve(request.headers);
+
+  const body = request.body as OpenAiEmbeddingsRequest;
+  if (!isTextOrTokens(body?.input)) {
+    reply.status(400).send({
+      error: 'Bad Request',
+      message: 'Body "input" must be a string, an array of strings, or token arrays.',
+    });
+    return;
+  }
+
+  const findings = new PiiFindings();
+  const redactText = createTextRedactor(redactionService, sessionService, sessionId, {
+    policy,
+    audit: createAuditContext(request, sessionId),
+    findings,
+  });
+
+  let input: OpenAiTextOrTokens;
+  try {
+    input = await redactTextOrTokens(body.input, redactText, env.TOKEN_INPUT_POLICY);
+  } catch (error) {
+    if (error instanceof TokenInputPolicyError) {
+      reply.status(400).send({
+        error: 'Bad Request',
+        message: error.message,
+      });
+      return;
+    }
+    throw error;
+  }
+
+  const upstreamResponse = await deps.upstreamRouter.post(
+    body.model,
+    '/embeddings',
+    JSON.stringify({ ...body, input }),
+    credentials
+  );
+
+  upstreamResponses.inc({ provider: 'openai', status: String(upstreamResponse.status) });
+  forwardUpstreamHeaders(reply, upstreamResponse);
+  setFindingsHeaders(reply, policy, findings);
+
+  if (!upstreamResponse.ok) {
+    await sendUpstreamError(reply, upstreamResponse);
+    return;
+  }
+
+  reply.send(await upstreamResponse.json());
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import type { RedactionService } from '../redaction/index.js';
+import { GeminiRedactionStream, type GeminiStreamFormat } from './gemini-stream.transformer.js';
+
+/** Redacts "Bob" after a delay long enough for later chunks to arrive mid-flush. */
+function createSlowRedactionService(delayMs: number): RedactionService {
+  return {
+    redact: async (text: string) => {
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+      return { text: text.replace(/Bob/g, 'Tom'), entities: [] };
+    },
+  } as unknown as RedactionService;
+}
+
+function chunk(candidate: Record<string, unknown>): string {
+  return `data: ${JSON.stringify({ candidates: [{ index: 0, ...candidate }] })}\r\n\r\n`;
+}
+
+type EmittedChunk = {
+  candidates: Array<{ finishReason?: string; content: { parts: Array<{ text?: string }> } }>;
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function runSlowFlush(format: GeminiStreamFormat, finish: boolean): Promise<string> {
+  const stream = new GeminiRedactionStream(createSlowRedactionService(50), format, { maxDelayMs: 10, maxTokens: 1000 });
+  let output = '';
+  stream.on('data', (data: Buffer) => {
+    output += data.toString();
+  });
+  const ended = new Promise<void>((resolve, reject) => {
+    stream.on('end', resolve);
+    stream.on('error', reject);
+  });
+
+  stream.write(chunk({ content: { role: 'model', parts: [{ text: 'hi Bob' }] } }));
+  // The timer fires and its redaction is still pending when the rest of the stream arrives
+  await sleep(20);
+  if (finish) {
+    stream.write(chunk({ content: { role: 'model', parts: [] }, finishReason: 'STOP' }));
+  }
+  stream.end();
+  await ended;
+  return output;
+}
+
+describe('GeminiRedactionStream', () => {
+  it('emits text from an in-flight timer flush before the finish reason', async () => {
+    const output = await runSlowFlush('sse', true);
+
+    const chunks = output
+      .split('\r\n\r\n')
+      .filter(Boolean)
+      .map((event) => JSON.parse(event.slice(5)) as EmittedChunk);
+    expect(chunks).toHaveLength(2);
+    expect(chunks[0]!.candidates[0]!.content.parts[0]!.text).toBe('hi Tom');
+    expect(chunks[1]!.candidates[0]!.finishReason).toBe('STOP');
+  });
+
+  it('closes the JSON array after text from an in-flight timer flush', async () => {
+    const output = await runSlowFlush('json', false);
+
+    const chunks = JSON.parse(output) as EmittedChunk[];
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0]!.candidates[0]!.content.parts[0]!.text).toBe('hi Tom');
+  });
+});
@@ -0,0 +1,239 @@
+import { Transform, TransformCallback } from 'node:stream';
+import type { RedactionService } from '../redaction/index.js';
+import type { StreamTransformerOptions } from './stream.transformer.js';
+import {
+  extractTextFromParts,
+  type GeminiPart,
+  type GeminiStreamChunk,
+} from '../../shared/types/gemini.types.js';
+
+type GeminiStreamCandidate = NonNullable<GeminiStreamChunk['candidates']>[number];
+
+/** 'sse' mirrors `alt=sse`; 'json' re-assembles the default streamed JSON array. */
+export type GeminiStreamFormat = 'sse' | 'json';
+
+const DEFAULT_OPTIONS: StreamTransformerOptions = {
+  maxTokens: 20,
+  maxDelayMs: 200,
+};
+
+const SENTENCE_BOUNDARY = /[.!?]\s+|[.!?]$/;
+
+interface CandidateBuffer {
+  text: string;
+  tokenCount: number;
+  role: string;
+}
+
+/**
+ * Buffers Gemini `alt=sse` chunks per candidate so PII spanning chunks is
+ * detected before text is forwarded. Non-text parts and finish reasons are
+ * emitted after the candidate's pending text.
+ */
+export class GeminiRedactionStream extends Transform {
+  private buffers = new Map<number, CandidateBuffer>();
+  private redactionService: RedactionService;
+  private options: StreamTransformerOptions;
+  private format: GeminiStreamFormat;
+  private lineBuffer = '';
+  private lastFlushTime = Date.now();
+  private flushTimer: NodeJS.Timeout | null = null;
+  private lastMeta: Pick<GeminiStreamChunk, 'usageMetadata' | 'modelVersion'> = {};
+  private chunksEmitted = 0;
+  /** Flushes from chunks and the timer run one after another, in order. */
+  private flushQueue: Promise<void> = Promise.resolve();
+
+  constructor(
+    redactionService: RedactionService,
+    format: GeminiStreamFormat,
+    options: Partial<StreamTransformerOptions> = {}
+  ) {
+    super({ objectMode: false });
+    this.redactionService = redactionService;
+    this.format = format;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  async _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): Promise<void> {
+    try {
+      this.lineBuffer += chunk.toString('utf-8');
+
+      const lines = this.lineBuffer.split('\n');
+      this.lineBuffer = lines.pop() ?? '';
+
+      for (const rawLine of lines) {
+        const line = rawLine.replace(/\r$/, '');
+        if (!line.startsWith('data:')) continue;
+
+        try {
+          const data = JSON.parse(line.slice(5).trim()) as GeminiStreamChunk;
+          await this.handleChunk(data);
+        } catch (error) {
+          if (!(error instanceof SyntaxError)) throw error;
+        }
+      }
+
+      this.scheduleFlush();
+      callback();
+    } catch (error) {
+      callback(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  async _flush(callback: TransformCallback): Promise<void> {
+    try {
+      if (this.flushTimer) {
+        clearTimeout(this.flushTimer);
+      }
+      await this.flushQueue;
+      await this.flushAll();
+      if (this.format === 'json') {
+        this.push(this.chunksEmitted === 0 ? '[]' : '\n]');
+      }
+      callback();
+    } catch (error) {
+      callback(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  private async handleChunk(data: GeminiStreamChunk): Promise<void> {
+    // A timer flush still redacting must emit its text before anything that follows
+    await this.flushQueue;
+
+    this.lastMeta = {
+      usageMetadata: data.usageMetadata ?? this.lastMeta.usageMetadata,
+      modelVersion: data.modelVersion ?? this.lastMeta.modelVersion,
+    };
+
+    if (!data.candidates || data.candidates.length === 0) {
+      await this.flushAll();
+      this.pushChunk(data);
+      return;
+    }
+
+    for (const [position, candidate] of data.candidates.entries()) {
+      const index = candidate.index ?? position;
+      const parts = candidate.content?.parts ?? [];
+      const buffer = this.getBuffer(index, candidate.content?.role);
+
+      const text = extractTextFromParts(parts);
+      buffer.text += text;
+      buffer.tokenCount += Math.ceil(text.length / 4);
+
+      const otherParts = parts.filter((part) => part.text === undefined);
+
+      if (otherParts.length > 0 || candidate.finishReason) {
+        await this.flushCandidate(index, otherParts, candidate);
+      } else if (this.shouldFlush(buffer)) {
+        await this.flushCandidate(index);
+      }
+    }
+  }
+
+  private getBuffer(index: number, role?: string): CandidateBuffer {
+    let buffer = this.buffers.get(index);
+    if (!buffer) {
+      buffer = { text: '', tokenCount: 0, role: role ?? 'model' };
+      this.buffers.set(index, buffer);
+    }
+    return buffer;
+  }
+
+  private shouldFlush(buffer: CandidateBuffer): boolean {
+    return (
+      SENTENCE_BOUNDARY.test(buffer.text) ||
+      buffer.tokenCount >= this.options.maxTokens ||
+      Date.now() - this.lastFlushTime >= this.options.maxDelayMs
+    );
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+    }
+
+    const pending = [...this.buffers.values()].some((buffer) => buffer.text.length > 0);
+    if (pending) {
+      this.flushTimer = setTimeout(() => {
+        this.flushAll().catch((err) => {
+          this.emit('error', err);
+        });
+      }, this.options.maxDelayMs);
+    }
+  }
+
+  private async flushAll(): Promise<void> {
+    for (const index of this.buffers.keys()) {
+      await this.flushCandidate(index);
+    }
+  }
+
+  /** Queues a candidate flush behind any in flight, so its text is out once it resolves. */
+  private flushCandidate(index: number, otherParts: GeminiPart[] = [], source?: GeminiStreamCandidate): Promise<void> {
+    const flush = this.flushQueue.then(async () => {
+      const buffer = this.getBuffer(index);
+      const redacted = await this.drain(buffer);
+      this.emitCandidate(index, buffer.role, redacted, otherParts, source);
+    });
+    this.flushQueue = flush.catch(() => undefined);
+    return flush;
+  }
+
+  /** Empties a candidate buffer and returns its redacted text. */
+  private async drain(buffer: CandidateBuffer): Promise<string> {
+    if (buffer.text.length === 0) return '';
+
+    const textToProcess = buffer.text;
+    buffer.text = '';
+    buffer.tokenCount = 0;
+    this.lastFlushTime = Date.now();
+
+    const result = await this.redactionService.redact(textToProcess, {
+      policy: this.options.policy,
+      direction: 'response',
+      audit: this.options.audit,
+    });
+    return result.text;
+  }
+
+  private emitCandidate(
+    index: number,
+    role: string,
+    text: string,
+    otherParts: GeminiPart[],
+    source?: GeminiStreamCandidate
+  ): void {
+    const parts: GeminiPart[] = [...(text ? [{ text }] : []), ...otherParts];
+    if (parts.length === 0 && !source?.finishReason) return;
+
+    const candidate: GeminiStreamCandidate = {
+      ...(source ?? {}),
+      content: { parts, role },
+      index,
+    };
+
+    this.pushChunk({
+      candidates: [candidate],
+      ...(this.lastMeta.usageMetadata ? { usageMetadata: this.lastMeta.usageMetadata } : {}),
+      ...(this.lastMeta.modelVersion ? { modelVersion: this.lastMeta.modelVersion } : {}),
+    });
+  }
+
+  private pushChunk(data: GeminiStreamChunk): void {
+    const json = JSON.stringify(data);
+    if (this.format === 'sse') {
+      this.push(`data: ${json}\r\n\r\n`);
+    } else {
+      this.push(`${this.chunksEmitted === 0 ? '[' : ','}\n${json}`);
+    }
+    this.chunksEmitted++;
+  }
+}
+
+export function createGeminiRedactionStream(
+  redactionService: RedactionService,
+  format: GeminiStreamFormat,
+  options?: Partial<StreamTransformerOptions>
+): GeminiRedactionStream {
+  return new GeminiRedactionStream(redactionService, format, options);
+}
@@ -0,0 +1,159 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { pipeline } from 'node:stream/promises';
+import { PassThrough } from 'node:stream';
+import { createGeminiRedactionStream } from './gemini-stream.transformer.js';
+import {
+  createAuditContext,
+  createTextRedactor,
+  forwardUpstreamHeaders,
+  pumpWebStream,
+  resolveSession,
+  sendUpstreamError,
+  setFindingsHeaders,
+  writeStreamHead,
+} from './proxy.helpers.js';
+import { env } from '../../infrastructure/config/env.js';
+import { activeStreams, upstreamResponses } from '../../infrastructure/metrics/metrics.js';
+import type { ProxyControllerDeps } from './proxy.controller.js';
+import { PiiFindings } from '../redaction/index.js';
+import { upstreamKeyFor } from '../credentials/index.js';
+import {
+  redactGeminiContent,
+  type GeminiGenerateContentRequest,
+  type GeminiGenerateContentResponse,
+  type GeminiPart,
+} from '../../shared/types/gemini.types.js';
+import { REDACTION_CONCURRENCY, mapConcurrent } from '../../shared/utils/concurrency.js';
+
+export type GeminiAction = 'generateContent' | 'streamGenerateContent';
+
+interface GeminiRouteParams {
+  model: string;
+  action: GeminiAction;
+}
+
+/** Splits a `{model}:{action}` path segment; returns null for unsupported actions. */
+export function parseGeminiModelAction(segment: string): GeminiRouteParams | null {
+  const separator = segment.lastIndexOf(':');
+  if (separator <= 0) return null;
+
+  const model = segment.slice(0, separator);
+  const action = segment.slice(separator + 1);
+  if (action !== 'generateContent' && action !== 'streamGenerateContent') return null;
+
+  return { model, action };
+}
+
+/** Handles Gemini `generateContent` and `streamGenerateContent` requests. */
+export async function handleGeminiGenerateContent(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  deps: ProxyControllerDeps,
+  params: GeminiRouteParams
+): Promise<void> {
+  const { redactionService, sessionService, policyService } = deps;
+  const query = request.query as Record<string, string | undefined>;
+
+  // Gemini clients authenticate via x-goog-api-key or ?key=
+  const googKey = request.headers['x-goog-api-key'];
+  const clientKey = { 'x-api-key': (typeof googKey === 'string' ? googKey : undefined) ?? query.key };
+  const policy = policyService.resolve({ ...request.headers, ...clientKey });
+  const sessionId = await resolveSession(request, reply, sessionService, policy, clientKey);
+  if (!sessionId) return;
+  const credentials = await deps.credentialService.resolve({ ...request.headers, ...clientKey });
+
+  const body = request.body as GeminiGenerateContentRequest;
+  if (!body?.contents || !Array.isArray(body.contents)) {
+    reply.status(400).send({
+      error: 'Bad Request',
+      message: 'Body must include "contents" array.',
+    });
+    return;
+  }
+
+  const audit = createAuditContext(request, sessionId);
+  const findings = new PiiFindings();
+  const redactText = createTextRedactor(redactionService, sessionService, sessionId, { policy, audit, findings });
+  const redactOutput = createTextRedactor(redactionService, sessionService, sessionId, {
+    policy,
+    audit,
+    findings,
+    direction: 'response',
+  });
+
+  const handlePart = (part: GeminiPart) => deps.contentPartService.geminiPart(part);
+  const contents = await mapConcurrent(body.contents, REDACTION_CONCURRENCY, (content) =>
+    redactGeminiContent(content, redactText, handlePart)
+  );
+  const systemInstruction = body.systemInstruction
+    ? await redactGeminiContent(body.systemInstruction, redactText, handlePart)
+    : undefined;
+
+  const isStream = params.action === 'streamGenerateContent';
+  const apiKey = upstreamKeyFor(credentials, 'gemini', env.GEMINI_API_KEY);
+  const upstreamUrl = `${env.GEMINI_UPSTREAM_URL.replace(/\/$/, '')}/models/${encodeURIComponent(params.model)}:${params.action}${isStream ? '?alt=sse' : ''}`;
+
+  const upstreamResponse = await fetch(upstreamUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(apiKey ? { 'x-goog-api-key': apiKey } : {}),
+    },
+    body: JSON.stringify({
+      ...body,
+      contents,
+      ...(systemInstruction ? { systemInstruction } : {}),
+    }),
+  });
+
+  upstreamResponses.inc({ provider: 'gemini', status: String(upstreamResponse.status) });
+  forwardUpstreamHeaders(reply, upstreamResponse);
+  setFindingsHeaders(reply, policy, findings);
+
+  if (!upstreamResponse.ok) {
+    await sendUpstreamError(reply, upstreamResponse);
+    return;
+  }
+
+  if (!isStream) {
+    const responseData = (await upstreamResponse.json()) as GeminiGenerateContentResponse;
+    for (const candidate of responseData.candidates ?? []) {
+      if (candidate?.content) {
+        candidate.content = await redactGeminiContent(candidate.content, redactOutput);
+      }
+    }
+    setFindingsHeaders(reply, policy, findings);
+    reply.send(responseData);
+    return;
+  }
+
+  if (!upstreamResponse.body) {
+    reply.status(502).send({
+      error: 'Bad Gateway',
+      message: 'No response body from upstream',
+    });
+    return;
+  }
+
+  const format = query.alt === 'sse' ? 'sse' : 'json';
+  writeStreamHead(reply, format === 'sse' ? 'text/event-stream' : 'application/json');
+
+  const redactionStream = createGeminiRedactionStream(redactionService, format, { policy, audit });
+  const passthrough = new PassThrough();
+  pumpWebStream(upstreamResponse.body, passthrough);
+
+  activeStreams.inc({ provider: 'gemini' });
+  try {
+    await pipeline(passthrough, redactionStream, reply.raw);
+  } catch (error) {
+    request.log.error(error, 'Gemini stream pipeline error');
+    if (!reply.raw.headersSent) {
+      reply.status(500).send({
+        error: 'Stream Error',
+        message: 'Error processing stream',
+      });
+    }
+  } finally {
+    activeStreams.dec({ provider: 'gemini' });
+  }
+}
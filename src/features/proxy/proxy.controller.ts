@@ -2,41 +2,63 @@ import type { FastifyRequest, FastifyReply } from 'fastify';
 import { pipeline } from 'node:stream/promises';
 import { PassThrough } from 'node:stream';
 import { createRedactionStream } from './stream.transformer.js';
-import { env } from '../../infrastructure/config/env.js';
-import type { RedactionService } from '../redaction/index.js';
+import {
+  createAuditContext,
+  forwardUpstreamHeaders,
+  pumpWebStream,
+  resolveSession,
+  sendUpstreamError,
+  setFindingsHeaders,
+  writeStreamHead,
+} from './proxy.helpers.js';
+import { activeStreams, upstreamResponses } from '../../infrastructure/metrics/metrics.js';
+import { PiiFindings, type RedactionContext, type RedactionService, type ReplacementRecord } from '../redaction/index.js';
 import type { SessionService } from '../session/risk-engine.service.js';
+import type { PseudonymVault, Rehydrator } from '../vault/index.js';
+import type { PolicyService } from '../policy/index.js';
+import type { UpstreamRouter } from '../routing/index.js';
+import type { CredentialService } from '../credentials/index.js';
+import type { ContentPartService } from '../media/index.js';
 import type {
   OpenAiChatCompletionRequest,
   OpenAiChatCompletionResponse,
   OpenAiMessage,
+  OpenAiPartHandler,
 } from '../../shared/types/openai.types.js';
-import { redactMessageContent } from '../../shared/types/openai.types.js';
+import { redactOpenAiMessage } from '../../shared/types/openai.types.js';
 
 export interface ProxyControllerDeps {
   redactionService: RedactionService;
   sessionService: SessionService;
+  vault: PseudonymVault;
+  policyService: PolicyService;
+  upstreamRouter: UpstreamRouter;
+  credentialService: CredentialService;
+  contentPartService: ContentPartService;
 }
 
+/** Header through which a client opts in to getting its original values back. */
+const REHYDRATE_HEADER = 'x-pii-rehydrate';
+
 /** Handles standard JSON-based chat completion requests. */
 export async function handleChatCompletions(
   request: FastifyRequest,
   reply: FastifyReply,
   deps: ProxyControllerDeps
 ): Promise<void> {
-  const { redactionService, sessionService } = deps;
-
-  const sessionId = sessionService.extractSessionId(
-    request.headers as Record<string, string | string[] | undefined>,
-    request.ip
-  );
-
-  if (await sessionService.isBanned(sessionId)) {
-    reply.status(403).send({
-      error: 'Forbidden',
-      message: 'Session blocked due to excessive PII exposure. Please try again later.',
-    });
-    return;
-  }
+  const { redactionService, sessionService, vault, policyService, upstreamRouter, credentialService } = deps;
+
+  const policy = policyService.resolve(request.headers);
+  const sessionId = await resolveSession(request, reply, sessionService, policy);
+  if (!sessionId) return;
+  const credentials = await credentialService.resolve(request.headers);
+
+  const findings = new PiiFindings();
+  const context: RedactionContext = {
+    policy,
+    audit: createAuditContext(request, sessionId),
+    findings,
+  };
 
   const body = request.body as OpenAiChatCompletionRequest;
   if (!body?.messages || !Array.isArray(body.messages)) {
@@ -47,34 +69,38 @@ export async function handleChatCompletions(
     return;
   }
 
+  const replacements: ReplacementRecord[] = [];
   const redactedMessages = await redactMessages(
     body.messages,
     redactionService,
     sessionService,
-    sessionId
+    sessionId,
+    context,
+    replacements,
+    (part) => deps.contentPartService.openAiPart(part)
   );
 
-  const upstreamUrl = `${env.UPSTREAM_URL.replace(/\/$/, '')}/chat/completions`;
+  const rehydrator = wantsRehydration(request.headers)
+    ? await vault.createRehydrator(sessionId, replacements)
+    : undefined;
 
-  const upstreamResponse = await fetch(upstreamUrl, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      ...(env.UPSTREAM_API_KEY ? { Authorization: `Bearer ${env.UPSTREAM_API_KEY}` } : {}),
-    },
-    body: JSON.stringify({
+  const upstreamResponse = await upstreamRouter.post(
+    body.model,
+    '/chat/completions',
+    JSON.stringify({
       ...body,
       stream: false,
       messages: redactedMessages,
     }),
-  });
+    credentials
+  );
+
+  upstreamResponses.inc({ provider: 'openai', status: String(upstreamResponse.status) });
+  forwardUpstreamHeaders(reply, upstreamResponse);
+  setFindingsHeaders(reply, policy, findings);
 
   if (!upstreamResponse.ok) {
-    const errorText = await upstreamResponse.text();
-    reply.status(upstreamResponse.status).send({
-      error: 'Upstream Error',
-      message: errorText,
-    });
+    await sendUpstreamError(reply, upstreamResponse);
     return;
   }
 
@@ -83,9 +109,12 @@ export async function handleChatCompletions(
     responseData,
     redactionService,
     sessionService,
-    sessionId
+    sessionId,
+    context,
+    rehydrator
   );
 
+  setFindingsHeaders(reply, policy, findings);
   reply.send(redactedResponse);
 }
 
@@ -95,20 +124,19 @@ export async function handleChatCompletionsStream(
   reply: FastifyReply,
   deps: ProxyControllerDeps
 ): Promise<void> {
-  const { redactionService, sessionService } = deps;
-
-  const sessionId = sessionService.extractSessionId(
-    request.headers as Record<string, string | string[] | undefined>,
-    request.ip
-  );
-
-  if (await sessionService.isBanned(sessionId)) {
-    reply.status(403).send({
-      error: 'Forbidden',
-      message: 'Session blocked due to excessive PII exposure. Please try again later.',
-    });
-    return;
-  }
+  const { redactionService, sessionService, vault, policyService, upstreamRouter, credentialService } = deps;
+
+  const policy = policyService.resolve(request.headers);
+  const sessionId = await resolveSession(request, reply, sessionService, policy);
+  if (!sessionId) return;
+  const credentials = await credentialService.resolve(request.headers);
+
+  const findings = new PiiFindings();
+  const context: RedactionContext = {
+    policy,
+    audit: createAuditContext(request, sessionId),
+    findings,
+  };
 
   const body = request.body as OpenAiChatCompletionRequest;
   if (!body?.messages || !Array.isArray(body.messages)) {
@@ -119,34 +147,38 @@ export async function handleChatCompletionsStream(
     return;
   }
 
+  const replacements: ReplacementRecord[] = [];
   const redactedMessages = await redactMessages(
     body.messages,
     redactionService,
     sessionService,
-    sessionId
+    sessionId,
+    context,
+    replacements,
+    (part) => deps.contentPartService.openAiPart(part)
   );
 
-  const upstreamUrl = `${env.UPSTREAM_URL.replace(/\/$/, '')}/chat/completions`;
+  const rehydrator = wantsRehydration(request.headers)
+    ? await vault.createRehydrator(sessionId, replacements)
+    : undefined;
 
-  const upstreamResponse = await fetch(upstreamUrl, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      ...(env.UPSTREAM_API_KEY ? { Authorization: `Bearer ${env.UPSTREAM_API_KEY}` } : {}),
-    },
-    body: JSON.stringify({
+  const upstreamResponse = await upstreamRouter.post(
+    body.model,
+    '/chat/completions',
+    JSON.stringify({
       ...body,
       stream: true,
       messages: redactedMessages,
     }),
-  });
+    credentials
+  );
+
+  upstreamResponses.inc({ provider: 'openai', status: String(upstreamResponse.status) });
+  forwardUpstreamHeaders(reply, upstreamResponse);
+  setFindingsHeaders(reply, policy, findings);
 
   if (!upstreamResponse.ok) {
-    const errorText = await upstreamResponse.text();
-    reply.status(upstreamResponse.status).send({
-      error: 'Upstream Error',
-      message: errorText,
-    });
+    await sendUpstreamError(reply, upstreamResponse);
     return;
   }
 
@@ -158,33 +190,17 @@ export async function handleChatCompletionsStream(
     return;
   }
 
-  reply.raw.writeHead(200, {
-    'Content-Type': 'text/event-stream',
-    'Cache-Control': 'no-cache',
-    'Connection': 'keep-alive',
-  });
+  writeStreamHead(reply);
 
-  const redactionStream = createRedactionStream(redactionService);
+  const redactionStream = createRedactionStream(redactionService, {
+    rehydrator,
+    policy,
+    audit: context.audit,
+  });
   const passthrough = new PassThrough();
-  const reader = upstreamResponse.body.getReader();
-
-  const readStream = async () => {
-    try {
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) {
-          passthrough.end();
-          break;
-        }
-        passthrough.write(value);
-      }
-    } catch (error) {
-      passthrough.destroy(error instanceof Error ? error : new Error(String(error)));
-    }
-  };
-
-  readStream();
+  pumpWebStream(upstreamResponse.body, passthrough);
 
+  activeStreams.inc({ provider: 'openai' });
   try {
     await pipeline(passthrough, redactionStream, reply.raw);
   } catch (error) {
@@ -195,61 +211,77 @@ export async function handleChatCompletionsStream(
         message: 'Error processing stream',
       });
     }
+  } finally {
+    activeStreams.dec({ provider: 'openai' });
   }
 }
 
-/** Redacts PII from input messages array and assesses session risk. */
+function wantsRehydration(headers: FastifyRequest['headers']): boolean {
+  const value = headers[REHYDRATE_HEADER];
+  const flag = Array.isArray(value) ? value[0] : value;
+  return flag !== undefined && ['true', '1', 'yes'].includes(flag.trim().toLowerCase());
+}
+
+/**
+ * Redacts PII from input messages array and assesses session risk.
+ * Pseudonyms created along the way are appended to `replacements`;
+ * non-text parts go through `handlePart`.
+ */
 async function redactMessages(
   messages: OpenAiMessage[],
   redactionService: RedactionService,
   sessionService: SessionService,
-  sessionId: string
+  sessionId: string,
+  context: RedactionContext,
+  replacements: ReplacementRecord[],
+  handlePart: OpenAiPartHandler
 ): Promise<OpenAiMessage[]> {
   const redactedMessages: OpenAiMessage[] = [];
+  const redactText = async (text: string) => {
+    const result = await redactionService.redact(text, context);
+    if (result.entities.length > 0) {
+      await sessionService.assessRisk(sessionId, result.entities);
+    }
+    replacements.push(...result.replacements);
+    return result.text;
+  };
 
   for (const message of messages) {
-    if (message.content !== undefined) {
-      const redactedContent = await redactMessageContent(message.content, async (text) => {
-        const result = await redactionService.redact(text);
-        if (result.entities.length > 0) {
-          await sessionService.assessRisk(sessionId, result.entities);
-        }
-        return result.text;
-      });
-
-      redactedMessages.push({
-        ...message,
-        content: redactedContent,
-      });
-    } else {
-      redactedMessages.push(message);
-    }
+    redactedMessages.push(await redactOpenAiMessage(message, redactText, handlePart));
   }
 
   return redactedMessages;
 }
 
-/** Redacts PII from upstream response content and assesses session risk. */
+/**
+ * Redacts PII from upstream response content and assesses session risk.
+ * With a rehydrator, vaulted pseudonyms are kept and swapped back to originals.
+ */
 async function redactResponse(
   response: OpenAiChatCompletionResponse,
   redactionService: RedactionService,
   sessionService: SessionService,
-  sessionId: string
+  sessionId: string,
+  context: RedactionContext,
+  rehydrator?: Rehydrator
 ): Promise<OpenAiChatCompletionResponse> {
   if (!response?.choices) return response;
 
-  for (const choice of response.choices) {
-    if (!choice?.message?.content) continue;
-
-    const redactedContent = await redactMessageContent(choice.message.content, async (text) => {
-      const result = await redactionService.redact(text);
-      if (result.entities.length > 0) {
-        await sessionService.assessRisk(sessionId, result.entities);
-      }
-      return result.text;
+  const redactText = async (text: string) => {
+    const result = await redactionService.redact(text, {
+      ...context,
+      preserve: rehydrator?.pseudonyms,
+      direction: 'response',
     });
+    if (result.entities.length > 0) {
+      await sessionService.assessRisk(sessionId, result.entities);
+    }
+    return rehydrator ? rehydrator.apply(result.text) : result.text;
+  };
 
-    choice.message.content = redactedContent;
+  for (const choice of response.choices) {
+    if (!choice?.message) continue;
+    choice.message = await redactOpenAiMessage(choice.message, redactText);
   }
 
   return response;
@@ -0,0 +1,158 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import type { PassThrough } from 'node:stream';
+import type { PiiFindings, RedactionContext, RedactionService } from '../redaction/index.js';
+import type { SessionService } from '../session/risk-engine.service.js';
+import type { AuditContext } from '../../shared/types/audit.types.js';
+import type { RedactionPolicy } from '../../shared/types/policy.types.js';
+import { env } from '../../infrastructure/config/env.js';
+
+/**
+ * Resolves the caller's session and applies graduated risk enforcement:
+ * warning and throttled sessions get `X-PII-Risk-*` headers, throttled sessions
+ * over their allowance get 429 and blocked sessions 403, both with Retry-After.
+ * Shadow-mode policies only get the headers. Returns null once a response has been sent.
+ */
+export async function resolveSession(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  sessionService: SessionService,
+  policy: RedactionPolicy,
+  extraHeaders: Record<string, string | undefined> = {}
+): Promise<string | null> {
+  const sessionId = sessionService.extractSessionId(
+    {
+      ...(request.headers as Record<string, string | string[] | undefined>),
+      ...extraHeaders,
+    },
+    request.ip
+  );
+
+  const admission = await sessionService.checkAdmission(sessionId);
+  if (admission.level !== 'ok') {
+    reply.header('X-PII-Risk-Level', admission.level);
+    reply.header('X-PII-Risk-Score', admission.score.toFixed(1));
+  }
+  if (admission.retryAfterSeconds !== undefined) {
+    reply.header('Retry-After', String(admission.retryAfterSeconds));
+  }
+
+  if (policy.mode === 'shadow') {
+    return sessionId;
+  }
+
+  if (admission.level === 'blocked') {
+    reply.status(403).send({
+      error: 'Forbidden',
+      message: 'Session blocked due to excessive PII exposure. Please try again later.',
+    });
+    return null;
+  }
+
+  if (!admission.allowed) {
+    reply.status(429).send({
+      error: 'Too Many Requests',
+      message: 'Session throttled due to elevated PII exposure. Please slow down.',
+      statusCode: 429,
+    });
+    return null;
+  }
+
+  return sessionId;
+}
+
+/** Attributes redactions made for this request in the audit log. */
+export function createAuditContext(request: FastifyRequest, sessionId: string): AuditContext {
+  return { sessionId, route: request.routeOptions.url ?? request.url };
+}
+
+/** Builds a text redactor that also feeds detected entities into session risk. */
+export function createTextRedactor(
+  redactionService: RedactionService,
+  sessionService: SessionService,
+  sessionId: string,
+  context: RedactionContext = {}
+): (text: string) => Promise<string> {
+  return async (text) => {
+    const result = await redactionService.redact(text, context);
+    if (result.entities.length > 0) {
+      await sessionService.assessRisk(sessionId, result.entities);
+    }
+    return result.text;
+  };
+}
+
+/**
+ * Summarizes shadow-mode findings in `X-PII-*` headers. Call again before the
+ * final send to include response findings; streamed responses only carry the
+ * prompt's, the rest goes to the audit trail.
+ */
+export function setFindingsHeaders(reply: FastifyReply, policy: RedactionPolicy, findings: PiiFindings): void {
+  if (policy.mode !== 'shadow') return;
+
+  reply.header('X-PII-Mode', 'shadow');
+  reply.headers(findings.toHeaders());
+}
+
+/**
+ * Copies allowlisted upstream response headers (request IDs, rate-limit
+ * state) onto the reply. Headers the proxy already set are kept.
+ */
+export function forwardUpstreamHeaders(reply: FastifyReply, response: Response): void {
+  response.headers.forEach((value, name) => {
+    const allowed = env.UPSTREAM_RESPONSE_HEADERS.some((pattern) =>
+      pattern.endsWith('*') ? name.startsWith(pattern.slice(0, -1)) : name === pattern
+    );
+    if (allowed && !reply.hasHeader(name)) {
+      reply.header(name, value);
+    }
+  });
+}
+
+/** Relays a non-2xx upstream response as an error payload. */
+export async function sendUpstreamError(reply: FastifyReply, response: Response): Promise<void> {
+  const errorText = await response.text();
+  reply.status(response.status).send({
+    error: 'Upstream Error',
+    message: errorText,
+  });
+}
+
+/**
+ * Writes the 200 head of a streamed response. Headers already set on the reply
+ * (e.g. risk warnings) are copied over, since writing to `reply.raw` bypasses them.
+ */
+export function writeStreamHead(reply: FastifyReply, contentType = 'text/event-stream'): void {
+  for (const [name, value] of Object.entries(reply.getHeaders())) {
+    if (value !== undefined) {
+      reply.raw.setHeader(name, value);
+    }
+  }
+
+  reply.raw.writeHead(200, {
+    'Content-Type': contentType,
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+  });
+}
+
+/** Copies a fetch response body into a Node stream so it can feed a pipeline. */
+export function pumpWebStream(body: ReadableStream<Uint8Array>, target: PassThrough): void {
+  const reader = body.getReader();
+
+  const readStream = async () => {
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) {
+          target.end();
+          break;
+        }
+        target.write(value);
+      }
+    } catch (error) {
+      target.destroy(error instanceof Error ? error : new Error(String(error)));
+    }
+  };
+
+  readStream();
+}
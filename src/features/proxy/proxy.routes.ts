@@ -1,8 +1,26 @@
 import type { FastifyInstance } from 'fastify';
 import { pipeline, env as transformersEnv, type TokenClassificationPipeline } from '@xenova/transformers';
 import { handleChatCompletions, handleChatCompletionsStream } from './proxy.controller.js';
+import { handleGeminiGenerateContent, parseGeminiModelAction } from './gemini.controller.js';
+import { handleMessages } from './anthropic.controller.js';
+import { handleEmbeddings } from './embeddings.controller.js';
+import { handleResponses } from './responses.controller.js';
+import { handleCompletions } from './completions.controller.js';
 import { getModelPipeline } from '../../engine/model-loader.js';
-import type { OpenAiChatCompletionRequest } from '../../shared/types/openai.types.js';
+import { env } from '../../infrastructure/config/env.js';
+import type {
+  OpenAiChatCompletionRequest,
+  OpenAiEmbeddingsRequest,
+} from '../../shared/types/openai.types.js';
+import type { ResponsesRequest } from '../../shared/types/openai-responses.types.js';
+import type { OpenAiCompletionRequest } from '../../shared/types/openai-completions.types.js';
+import type { AnthropicMessagesRequest } from '../../shared/types/anthropic.types.js';
+
+/**
+ * Body limit for routes that accept inline media: one part at MAX_PART_BYTES,
+ * base64-encoded (4/3 larger), plus 1 MiB for the rest of the request.
+ */
+const mediaRouteOptions = { bodyLimit: Math.ceil((env.MAX_PART_BYTES * 4) / 3) + 1024 * 1024 };
 
 const debugPipelineCache = new Map<string, Promise<TokenClassificationPipeline>>();
 
@@ -47,7 +65,24 @@ async function getDebugPipeline(
 }
 
 export async function registerProxyRoutes(app: FastifyInstance): Promise<void> {
-  const { redactionService, sessionService } = app.deps;
+  const {
+    redactionService,
+    sessionService,
+    vault,
+    policyService,
+    upstreamRouter,
+    credentialService,
+    contentPartService,
+  } = app.deps;
+  const controllerDeps = {
+    redactionService,
+    sessionService,
+    vault,
+    policyService,
+    upstreamRouter,
+    credentialService,
+    contentPartService,
+  };
   type DebugRedactBody = {
     text?: string;
     includeRaw?: boolean;
@@ -55,23 +90,60 @@ export async function registerProxyRoutes(app: FastifyInstance): Promise<void> {
     quantized?: boolean;
   };
 
-  app.post<{ Body: OpenAiChatCompletionRequest }>('/v1/chat/completions', async (request, reply) => {
-    const body = request.body as OpenAiChatCompletionRequest;
+  app.post<{ Body: OpenAiChatCompletionRequest }>(
+    '/v1/chat/completions',
+    mediaRouteOptions,
+    async (request, reply) => {
+      const body = request.body as OpenAiChatCompletionRequest;
 
-    if (body?.stream) {
-      await handleChatCompletionsStream(request, reply, {
-        redactionService,
-        sessionService,
-      });
-      return;
+      if (body?.stream) {
+        await handleChatCompletionsStream(request, reply, controllerDeps);
+        return;
+      }
+
+      await handleChatCompletions(request, reply, controllerDeps);
     }
+  );
 
-    await handleChatCompletions(request, reply, {
-      redactionService,
-      sessionService,
-    });
+  app.post<{ Body: ResponsesRequest }>('/v1/responses', mediaRouteOptions, async (request, reply) => {
+    await handleResponses(request, reply, controllerDeps);
+  });
+
+  app.post<{ Body: OpenAiCompletionRequest }>('/v1/completions', async (request, reply) => {
+    await handleCompletions(request, reply, controllerDeps);
   });
 
+  app.post<{ Body: OpenAiEmbeddingsRequest }>('/v1/embeddings', async (request, reply) => {
+    await handleEmbeddings(request, reply, controllerDeps);
+  });
+
+  app.get('/v1/models', async (request) =>
+    upstreamRouter.listModels(await credentialService.resolve(request.headers))
+  );
+
+  app.post<{ Body: AnthropicMessagesRequest }>('/v1/messages', mediaRouteOptions, async (request, reply) => {
+    await handleMessages(request, reply, controllerDeps);
+  });
+
+  // Gemini paths embed the action after a colon: /v1beta/models/{model}:generateContent
+  app.post<{ Params: { modelAction: string } }>(
+    '/v1beta/models/:modelAction',
+    mediaRouteOptions,
+    async (request, reply) => {
+      const params = parseGeminiModelAction(request.params.modelAction);
+      if (!params) {
+        reply.status(404).send({
+          error: 'Not Found',
+          message: 'Supported actions are :generateContent and :streamGenerateContent.',
+          statusCode: 404,
+        });
+        return;
+      }
+
+      await handleGeminiGenerateContent(request, reply, controllerDeps, params);
+    }
+  );
+
   app.post<{ Body: DebugRedactBody }>('/debug/redact', async (request, reply) => {
     const body = request.body as DebugRedactBody;
     const text = typeof body?.text === 'string' ? body.text : '';
@@ -92,9 +164,16 @@ export async function registerProxyRoutes(app: FastifyInstance): Promise<void> {
       const modelId = typeof body.modelId === 'string' && body.modelId.trim()
         ? body.modelId.trim()
         : undefined;
-      const debugPipeline = modelId
-        ? await getDebugPipeline(modelId, body.quantized)
-        : getModelPipeline();
+      let debugPipeline: TokenClassificationPipeline;
+      if (modelId) {
+        debugPipeline = await getDebugPipeline(modelId, body.quantized);
+      } else if (env.INFERENCE_BACKEND === 'transformers' && env.INFERENCE_WORKERS === 0) {
+        debugPipeline = getModelPipeline();
+      } else {
+        // Raw token dumps come from a transformers.js pipeline over the same model,
+        // loaded here when the serving session lives in a worker or uses onnx
+        debugPipeline = await getDebugPipeline(env.MODEL_ID, env.MODEL_QUANTIZED);
+      }
       const modelIdUsed = modelId ?? 'default';
       const rawTokens = await debugPipeline(text, { ignore_labels: [] } as Record<string, unknown>);
       const id2label = (debugPipeline as unknown as { model?: { config?: { id2label?: Record<string, string> } } })
@@ -0,0 +1,299 @@
+import { Transform, TransformCallback } from 'node:stream';
+import type { RedactionService } from '../redaction/index.js';
+import type { StreamTransformerOptions } from './stream.transformer.js';
+import { redactJsonText } from '../../shared/types/openai.types.js';
+import {
+  isRefusalPart,
+  isTextPart,
+  joinOutputText,
+  redactResponsesContentPart,
+  redactResponsesItem,
+  type ResponsesContentPart,
+  type ResponsesItem,
+  type ResponsesResponse,
+  type ResponsesStreamEvent,
+} from '../../shared/types/openai-responses.types.js';
+import { REDACTION_CONCURRENCY, mapConcurrent } from '../../shared/utils/concurrency.js';
+
+const DEFAULT_OPTIONS: StreamTransformerOptions = {
+  maxTokens: 20,
+  maxDelayMs: 200,
+};
+
+const SENTENCE_BOUNDARY = /[.!?]\s+|[.!?]$/;
+
+const TEXT_DELTA_EVENTS = new Set(['response.output_text.delta', 'response.refusal.delta']);
+const TERMINAL_EVENTS = new Set(['response.completed', 'response.incomplete', 'response.failed']);
+
+interface PartBuffer {
+  pending: string;
+  tokenCount: number;
+  /** Redacted text already sent to the client for this part. */
+  emitted: string;
+  /** Last buffered delta event, reused as the shape of the flushed one. */
+  template: ResponsesStreamEvent;
+}
+
+function partKey(itemId: string | undefined, contentIndex: number | undefined): string {
+  return `${itemId ?? ''}:${contentIndex ?? 0}`;
+}
+
+/**
+ * Redacts OpenAI Responses API SSE streams. Text and refusal deltas are
+ * buffered per content part and re-emitted redacted; function call arguments
+ * are held until `response.function_call_arguments.done`. The `*.done`,
+ * `output_item.done` and `response.completed` snapshots are rewritten with the
+ * exact redacted text the client already received, so they need no new inference.
+ */
+export class ResponsesRedactionStream extends Transform {
+  private parts = new Map<string, PartBuffer>();
+  /** Redacted arguments per function_call item ID, once complete. */
+  private functionArguments = new Map<string, string>();
+  /** Argument fragments per item ID, with the last delta event as template. */
+  private pendingArguments = new Map<string, { text: string; template: ResponsesStreamEvent }>();
+  private redactionService: RedactionService;
+  private options: StreamTransformerOptions;
+  private eventBuffer = '';
+  private lastFlushTime = Date.now();
+  private flushTimer: NodeJS.Timeout | null = null;
+  /** Flushes from events and the timer run one after another, in order. */
+  private flushQueue: Promise<void> = Promise.resolve();
+
+  constructor(redactionService: RedactionService, options: Partial<StreamTransformerOptions> = {}) {
+    super({ objectMode: false });
+    this.redactionService = redactionService;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  async _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): Promise<void> {
+    try {
+      this.eventBuffer += chunk.toString('utf-8').replace(/\r\n/g, '\n');
+
+      const events = this.eventBuffer.split('\n\n');
+      this.eventBuffer = events.pop() ?? '';
+
+      for (const rawEvent of events) {
+        if (rawEvent.trim()) {
+          await this.handleEvent(rawEvent);
+        }
+      }
+
+      this.scheduleFlush();
+      callback();
+    } catch (error) {
+      callback(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  async _flush(callback: TransformCallback): Promise<void> {
+    try {
+      if (this.flushTimer) {
+        clearTimeout(this.flushTimer);
+      }
+      if (this.eventBuffer.trim()) {
+        await this.handleEvent(this.eventBuffer);
+        this.eventBuffer = '';
+      }
+      await this.flushAll();
+      callback();
+    } catch (error) {
+      callback(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  private async handleEvent(rawEvent: string): Promise<void> {
+    // A timer flush still redacting must emit its delta before anything that follows
+    await this.flushQueue;
+
+    const dataLines = rawEvent
+      .split('\n')
+      .filter((line) => line.startsWith('data:'))
+      .map((line) => line.slice(5).trim());
+
+    let event: ResponsesStreamEvent;
+    try {
+      event = JSON.parse(dataLines.join('\n')) as ResponsesStreamEvent;
+    } catch {
+      this.push(`${rawEvent}\n\n`);
+      return;
+    }
+
+    if (TEXT_DELTA_EVENTS.has(event.type) && typeof event.delta === 'string') {
+      const key = partKey(event.item_id, event.content_index);
+      const buffer = this.parts.get(key) ?? { pending: '', tokenCount: 0, emitted: '', template: event };
+      this.parts.set(key, buffer);
+
+      buffer.pending += event.delta;
+      buffer.tokenCount += Math.ceil(event.delta.length / 4);
+      buffer.template = event;
+
+      if (this.shouldFlush(buffer)) {
+        await this.flushPart(key);
+      }
+      return;
+    }
+
+    if (event.type === 'response.function_call_arguments.delta' && typeof event.delta === 'string') {
+      const itemId = event.item_id ?? '';
+      const text = (this.pendingArguments.get(itemId)?.text ?? '') + event.delta;
+      this.pendingArguments.set(itemId, { text, template: event });
+      return;
+    }
+
+    if (event.type === 'response.function_call_arguments.done') {
+      await this.handleArgumentsDone(event);
+      return;
+    }
+
+    if (event.type === 'response.output_text.done' || event.type === 'response.refusal.done') {
+      const key = partKey(event.item_id, event.content_index);
+      await this.flushPart(key);
+      const field = event.type === 'response.refusal.done' ? 'refusal' : 'text';
+      event[field] = this.parts.get(key)?.emitted ?? (await this.redact(String(event[field] ?? '')));
+    } else if (event.type === 'response.content_part.done' && event.part) {
+      const key = partKey(event.item_id, event.content_index);
+      await this.flushPart(key);
+      event.part = await this.rewritePart(event.part, key);
+    } else if (event.type === 'response.output_item.done' && event.item) {
+      await this.flushAll();
+      event.item = await this.rewriteItem(event.item);
+    } else if (TERMINAL_EVENTS.has(event.type) && event.response) {
+      await this.flushAll();
+      event.response = await this.rewriteResponse(event.response);
+    } else if (event.type === 'error') {
+      await this.flushAll();
+    } else {
+      this.push(`${rawEvent}\n\n`);
+      return;
+    }
+
+    this.pushEvent(event);
+  }
+
+  /** Emits the whole redacted arguments string as one delta ahead of the done event. */
+  private async handleArgumentsDone(event: ResponsesStreamEvent): Promise<void> {
+    const itemId = event.item_id ?? '';
+    const pending = this.pendingArguments.get(itemId);
+    this.pendingArguments.delete(itemId);
+    const args = typeof event.arguments === 'string' ? event.arguments : pending?.text ?? '';
+
+    const redacted = await redactJsonText(args, (text) => this.redact(text));
+    this.functionArguments.set(itemId, redacted);
+
+    if (pending) {
+      this.pushEvent({ ...pending.template, delta: redacted });
+    }
+    this.pushEvent({ ...event, arguments: redacted });
+  }
+
+  private async rewritePart(part: ResponsesContentPart, key: string): Promise<ResponsesContentPart> {
+    const emitted = this.parts.get(key)?.emitted;
+    if (emitted !== undefined && isTextPart(part)) {
+      return { ...part, text: emitted };
+    }
+    if (emitted !== undefined && isRefusalPart(part)) {
+      return { ...part, refusal: emitted };
+    }
+    return redactResponsesContentPart(part, (text) => this.redact(text));
+  }
+
+  private async rewriteItem(item: ResponsesItem): Promise<ResponsesItem> {
+    const itemId = typeof item.id === 'string' ? item.id : undefined;
+
+    if (item.type === 'function_call' && itemId && this.functionArguments.has(itemId)) {
+      return { ...item, arguments: this.functionArguments.get(itemId) };
+    }
+
+    if (itemId && Array.isArray(item.content)) {
+      const parts = item.content as ResponsesContentPart[];
+      const content = await mapConcurrent(parts, REDACTION_CONCURRENCY, (part, index) =>
+        this.rewritePart(part, partKey(itemId, index))
+      );
+      return { ...item, content };
+    }
+
+    return redactResponsesItem(item, (text) => this.redact(text));
+  }
+
+  private async rewriteResponse(response: ResponsesResponse): Promise<ResponsesResponse> {
+    if (!Array.isArray(response.output)) return response;
+
+    const output = await mapConcurrent(response.output, REDACTION_CONCURRENCY, (item) => this.rewriteItem(item));
+    return {
+      ...response,
+      output,
+      ...(typeof response.output_text === 'string' ? { output_text: joinOutputText(output) } : {}),
+    };
+  }
+
+  private shouldFlush(buffer: PartBuffer): boolean {
+    return (
+      SENTENCE_BOUNDARY.test(buffer.pending) ||
+      buffer.tokenCount >= this.options.maxTokens ||
+      Date.now() - this.lastFlushTime >= this.options.maxDelayMs
+    );
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+    }
+
+    const pending = [...this.parts.values()].some((buffer) => buffer.pending.length > 0);
+    if (pending) {
+      this.flushTimer = setTimeout(() => {
+        this.flushAll().catch((err) => {
+          this.emit('error', err);
+        });
+      }, this.options.maxDelayMs);
+    }
+  }
+
+  private async flushAll(): Promise<void> {
+    for (const key of this.parts.keys()) {
+      await this.flushPart(key);
+    }
+  }
+
+  /** Queues a flush behind any in flight, so `emitted` is complete once it resolves. */
+  private flushPart(key: string): Promise<void> {
+    const flush = this.flushQueue.then(() => this.emitPending(key));
+    this.flushQueue = flush.catch(() => undefined);
+    return flush;
+  }
+
+  /** Redacts a part's buffered text and emits it as a single delta event. */
+  private async emitPending(key: string): Promise<void> {
+    const buffer = this.parts.get(key);
+    if (!buffer || buffer.pending.length === 0) return;
+
+    const textToProcess = buffer.pending;
+    buffer.pending = '';
+    buffer.tokenCount = 0;
+    this.lastFlushTime = Date.now();
+
+    const text = await this.redact(textToProcess);
+    buffer.emitted += text;
+    this.pushEvent({ ...buffer.template, delta: text });
+  }
+
+  private async redact(text: string): Promise<string> {
+    const result = await this.redactionService.redact(text, {
+      policy: this.options.policy,
+      direction: 'response',
+      audit: this.options.audit,
+    });
+    return result.text;
+  }
+
+  private pushEvent(event: ResponsesStreamEvent): void {
+    this.push(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  }
+}
+
+export function createResponsesRedactionStream(
+  redactionService: RedactionService,
+  options?: Partial<StreamTransformerOptions>
+): ResponsesRedactionStream {
+  return new ResponsesRedactionStream(redactionService, options);
+}
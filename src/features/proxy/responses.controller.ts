@@ -0,0 +1,123 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { pipeline } from 'node:stream/promises';
+import { PassThrough } from 'node:stream';
+import { createResponsesRedactionStream } from './responses-stream.transformer.js';
+import {
+  createAuditContext,
+  createTextRedactor,
+  forwardUpstreamHeaders,
+  pumpWebStream,
+  resolveSession,
+  sendUpstreamError,
+  setFindingsHeaders,
+  writeStreamHead,
+} from './proxy.helpers.js';
+import { activeStreams, upstreamResponses } from '../../infrastructure/metrics/metrics.js';
+import type { ProxyControllerDeps } from './proxy.controller.js';
+import { PiiFindings } from '../redaction/index.js';
+import {
+  redactResponsesInput,
+  redactResponsesResponse,
+  type ResponsesContentPart,
+  type ResponsesRequest,
+  type ResponsesResponse,
+} from '../../shared/types/openai-responses.types.js';
+
+/** Handles OpenAI Responses API requests (`/v1/responses`), streaming or not. */
+export async function handleResponses(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  deps: ProxyControllerDeps
+): Promise<void> {
+  const { redactionService, sessionService, policyService } = deps;
+
+  const policy = policyService.resolve(request.headers);
+  const sessionId = await resolveSession(request, reply, sessionService, policy);
+  if (!sessionId) return;
+  const credentials = await deps.credentialService.resolve(request.headers);
+
+  const body = request.body as ResponsesRequest;
+  if (
+    !body ||
+    (body.input !== undefined && typeof body.input !== 'string' && !Array.isArray(body.input))
+  ) {
+    reply.status(400).send({
+      error: 'Bad Request',
+      message: 'Body "input" must be a string or an array of input items.',
+    });
+    return;
+  }
+
+  const audit = createAuditContext(request, sessionId);
+  const findings = new PiiFindings();
+  const redactText = createTextRedactor(redactionService, sessionService, sessionId, { policy, audit, findings });
+  const redactOutput = createTextRedactor(redactionService, sessionService, sessionId, {
+    policy,
+    audit,
+    findings,
+    direction: 'response',
+  });
+
+  const handlePart = (part: ResponsesContentPart) => deps.contentPartService.responsesPart(part);
+  const input = body.input === undefined ? undefined : await redactResponsesInput(body.input, redactText, handlePart);
+  const instructions = typeof body.instructions === 'string'
+    ? await redactText(body.instructions)
+    : body.instructions;
+
+  const upstreamResponse = await deps.upstreamRouter.post(
+    body.model,
+    '/responses',
+    JSON.stringify({
+      ...body,
+      ...(input !== undefined ? { input } : {}),
+      ...(instructions !== undefined ? { instructions } : {}),
+    }),
+    credentials
+  );
+
+  upstreamResponses.inc({ provider: 'openai', status: String(upstreamResponse.status) });
+  forwardUpstreamHeaders(reply, upstreamResponse);
+  setFindingsHeaders(reply, policy, findings);
+
+  if (!upstreamResponse.ok) {
+    await sendUpstreamError(reply, upstreamResponse);
+    return;
+  }
+
+  if (!body.stream) {
+    const responseData = (await upstreamResponse.json()) as ResponsesResponse;
+    const redactedResponse = await redactResponsesResponse(responseData, redactOutput);
+    setFindingsHeaders(reply, policy, findings);
+    reply.send(redactedResponse);
+    return;
+  }
+
+  if (!upstreamResponse.body) {
+    reply.status(502).send({
+      error: 'Bad Gateway',
+      message: 'No response body from upstream',
+    });
+    return;
+  }
+
+  writeStreamHead(reply);
+
+  const redactionStream = createResponsesRedactionStream(redactionService, { policy, audit });
+  const passthrough = new PassThrough();
+  pumpWebStream(upstreamResponse.body, passthrough);
+
+  activeStreams.inc({ provider: 'openai' });
+  try {
+    await pipeline(passthrough, redactionStream, reply.raw);
+  } catch (error) {
+    request.log.error(error, 'Responses stream pipeline error');
+    if (!reply.raw.headersSent) {
+      reply.status(500).send({
+        error: 'Stream Error',
+        message: 'Error processing stream',
+      });
+    }
+  } finally {
+    activeStreams.dec({ provider: 'openai' });
+  }
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import type { RedactionService } from '../redaction/index.js';
+import { PiiRedactionStream } from './stream.transformer.js';
+
+/** Redacts "Bob" after a delay long enough for later chunks to arrive mid-flush. */
+function createSlowRedactionService(delayMs: number): RedactionService {
+  return {
+    redact: async (text: string) => {
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+      return { text: text.replace(/Bob/g, 'Tom'), entities: [] };
+    },
+  } as unknown as RedactionService;
+}
+
+function chunk(choice: Record<string, unknown>): string {
+  return `data: ${JSON.stringify({ id: 'c1', object: 'chat.completion.chunk', choices: [{ index: 0, ...choice }] })}\n\n`;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('PiiRedactionStream', () => {
+  it('emits text from an in-flight timer flush before a finish chunk and [DONE]', async () => {
+    const stream = new PiiRedactionStream(createSlowRedactionService(50), { maxDelayMs: 10, maxTokens: 1000 });
+    let output = '';
+    stream.on('data', (data: Buffer) => {
+      output += data.toString();
+    });
+    const ended = new Promise<void>((resolve, reject) => {
+      stream.on('end', resolve);
+      stream.on('error', reject);
+    });
+
+    stream.write(chunk({ delta: { content: 'hi Bob' }, finish_reason: null }));
+    // The timer fires and its redaction is still pending when the finish arrives
+    await sleep(20);
+    stream.write(chunk({ delta: {}, finish_reason: 'stop' }));
+    stream.write('data: [DONE]\n\n');
+    stream.end();
+    await ended;
+
+    const events = output.split('\n').filter((line) => line.startsWith('data:')).map((line) => line.slice(5).trim());
+    expect(events).toHaveLength(3);
+    expect(JSON.parse(events[0]!).choices[0].delta.content).toBe('hi Tom');
+    expect(JSON.parse(events[1]!).choices[0].finish_reason).toBe('stop');
+    expect(events[2]).toBe('[DONE]');
+  });
+});
@@ -1,10 +1,24 @@
 import { Transform, TransformCallback } from 'node:stream';
 import type { RedactionService } from '../redaction/index.js';
-import type { OpenAiChatCompletionChunk } from '../../shared/types/openai.types.js';
+import type { Rehydrator } from '../vault/index.js';
+import type { RedactionPolicy } from '../../shared/types/policy.types.js';
+import type { AuditContext } from '../../shared/types/audit.types.js';
+import {
+  redactJsonText,
+  type OpenAiChatCompletionChunk,
+  type OpenAiChatCompletionChunkChoice,
+  type OpenAiChatCompletionDelta,
+  type OpenAiToolCallDelta,
+} from '../../shared/types/openai.types.js';
+import type { OpenAiCompletionChoice } from '../../shared/types/openai-completions.types.js';
 
 export interface StreamTransformerOptions {
   maxTokens: number;
   maxDelayMs: number;
+  /** Restores vaulted originals in the client-bound stream when set. */
+  rehydrator?: Rehydrator;
+  policy?: RedactionPolicy;
+  audit?: AuditContext;
 }
 
 const DEFAULT_OPTIONS: StreamTransformerOptions = {
@@ -14,20 +28,44 @@ const DEFAULT_OPTIONS: StreamTransformerOptions = {
 
 const SENTENCE_BOUNDARY = /[.!?]\s+|[.!?]$/;
 
+function isCompleteJson(text: string): boolean {
+  const trimmed = text.trimEnd();
+  if (!trimmed.endsWith('}') && !trimmed.endsWith(']')) return false;
+  try {
+    JSON.parse(trimmed);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+interface ChoiceState {
+  buffer: string;
+  tokenCount: number;
+  lastFlushTime: number;
+  flushTimer: NodeJS.Timeout | null;
+  role?: string;
+  roleEmitted: boolean;
+  /** Argument fragments per tool call index, held until the JSON is complete. */
+  toolArguments: Map<number, string>;
+}
+
 /**
  * Buffers SSE chunks to ensure sentence-boundary integrity for PII detection.
- * Implements "Split-Transform-Merge" pattern.
+ * Implements "Split-Transform-Merge" pattern. Each choice index (n > 1) keeps
+ * its own buffer, and a choice's pending text is always emitted before its
+ * finish_reason and before the trailing usage chunk. Legacy `/v1/completions`
+ * chunks (`choices[].text` instead of `delta`) are handled the same way.
  */
 export class PiiRedactionStream extends Transform {
-  private buffer = '';
-  private tokenCount = 0;
-  private lastFlushTime = Date.now();
+  private choices = new Map<number, ChoiceState>();
   private redactionService: RedactionService;
   private options: StreamTransformerOptions;
-  private flushTimer: NodeJS.Timeout | null = null;
   private lineBuffer = '';
-  private lastMeta: { id?: string; model?: string; created?: number; index?: number; role?: string } = {};
-  private roleEmitted = false;
+  private lastMeta: { id?: string; model?: string; created?: number } = {};
+  private textCompletion = false;
+  /** Flushes from chunks and timers run one after another, in order. */
+  private flushQueue: Promise<void> = Promise.resolve();
 
   constructor(redactionService: RedactionService, options: Partial<StreamTransformerOptions> = {}) {
     super({ objectMode: false });
@@ -44,6 +82,9 @@ export class PiiRedactionStream extends Transform {
       this.lineBuffer = lines.pop() ?? '';
 
       for (const rawLine of lines) {
+        // A timer flush still redacting must emit its text before anything that follows
+        await this.flushQueue;
+
         const line = rawLine.replace(/\r$/, '');
         if (!line.startsWith('data:')) {
           if (line === '') {
@@ -57,28 +98,19 @@ export class PiiRedactionStream extends Transform {
         const jsonStr = line.slice(5).trim();
 
         if (jsonStr === '[DONE]') {
-          await this.flushBuffer();
+          await this.flushAll(true);
           this.push('data: [DONE]\n\n');
           continue;
         }
 
+        let data: OpenAiChatCompletionChunk;
         try {
-          const data = JSON.parse(jsonStr) as OpenAiChatCompletionChunk;
-          const content = this.extractDeltaContent(data);
-
-          if (content) {
-            this.buffer += content;
-            this.tokenCount += this.estimateTokens(content);
-
-            if (this.shouldFlush()) {
-              await this.flushBuffer();
-            }
-          } else {
-            this.push(line + '\n');
-          }
+          data = JSON.parse(jsonStr) as OpenAiChatCompletionChunk;
         } catch {
           this.push(line + '\n');
+          continue;
         }
+        await this.handleChunk(data, line);
       }
 
       this.scheduleFlush();
@@ -90,52 +122,212 @@ export class PiiRedactionStream extends Transform {
 
   async _flush(callback: TransformCallback): Promise<void> {
     try {
-      if (this.flushTimer) {
-        clearTimeout(this.flushTimer);
-      }
+      this.clearTimers();
+      await this.flushQueue;
       if (this.lineBuffer) {
         this.push(this.lineBuffer);
         this.lineBuffer = '';
       }
-      await this.flushBuffer();
+      await this.flushAll(true);
       callback();
     } catch (error) {
       callback(error instanceof Error ? error : new Error(String(error)));
     }
   }
 
-  /** Extracts text content from OpenAI delta chunk, tracking metadata. */
-  private extractDeltaContent(data: OpenAiChatCompletionChunk): string {
-    if (!data || !data.choices || data.choices.length === 0) return '';
-
-    const choice = data.choices[0];
-    if (!choice) return '';
-
+  /**
+   * Buffers each choice's delta content and tool call arguments, and forwards
+   * everything else (role, finish_reason, usage) once the text ahead of it has
+   * been emitted.
+   */
+  private async handleChunk(data: OpenAiChatCompletionChunk, line: string): Promise<void> {
     this.lastMeta = {
       id: data.id ?? this.lastMeta.id,
       model: data.model ?? this.lastMeta.model,
       created: data.created ?? this.lastMeta.created,
-      index: choice.index ?? this.lastMeta.index,
-      role: (choice.delta as { role?: string })?.role ?? this.lastMeta.role,
     };
 
-    const delta = choice.delta as { content?: string };
-    if (!delta || typeof delta.content !== 'string') return '';
+    // The include_usage chunk has no choices and follows every finish_reason
+    if (!data.choices || data.choices.length === 0) {
+      await this.flushAll(true);
+      this.push(line + '\n');
+      return;
+    }
+
+    const forwarded: Array<OpenAiChatCompletionChunkChoice | OpenAiCompletionChoice> = [];
+    const withPendingToolCalls: number[] = [];
+    let modified = false;
+
+    for (const choice of data.choices) {
+      const index = choice.index ?? 0;
+      const state = this.getChoice(index);
+      const legacyText = (choice as Partial<OpenAiCompletionChoice>).text;
+      const isLegacy = choice.delta === undefined && typeof legacyText === 'string';
+      if (isLegacy) {
+        this.textCompletion = true;
+      }
+      const { content, tool_calls: toolCalls, ...rest }: OpenAiChatCompletionDelta = isLegacy
+        ? { content: legacyText }
+        : choice.delta ?? {};
+
+      if (rest.role) {
+        state.role = rest.role;
+      }
+
+      if (typeof content === 'string' && content.length > 0) {
+        state.buffer += content;
+        state.tokenCount += this.estimateTokens(content);
+        modified = true;
+
+        if (this.shouldFlush(state)) {
+          await this.flushChoice(index);
+        }
+      }
+
+      let toolHeaders: OpenAiToolCallDelta[] = [];
+      if (Array.isArray(toolCalls) && toolCalls.length > 0) {
+        await this.flushChoice(index, true);
+        toolHeaders = await this.bufferToolCalls(index, state, toolCalls);
+        modified = true;
+      }
+
+      const finished = choice.finish_reason != null;
+      const hasOtherFields = Object.keys(rest).length > 0 || finished || toolHeaders.length > 0;
+      if (hasOtherFields || (content !== undefined && typeof content !== 'string')) {
+        await this.flushChoice(index, true);
+        if (finished) {
+          await this.flushToolCalls(index, true);
+        }
+        if (rest.role) {
+          state.roleEmitted = true;
+        }
+        const delta: OpenAiChatCompletionDelta = {
+          ...rest,
+          ...(typeof content === 'string' ? {} : { content }),
+          ...(toolHeaders.length > 0 ? { tool_calls: toolHeaders } : {}),
+        };
+        forwarded.push(isLegacy ? { ...choice, text: '' } : { ...choice, delta });
+      }
+
+      if (state.toolArguments.size > 0) {
+        withPendingToolCalls.push(index);
+      }
+    }
+
+    if (!modified) {
+      this.push(line + '\n');
+    } else if (forwarded.length > 0) {
+      this.push(`data: ${JSON.stringify({ ...data, choices: forwarded })}\n`);
+    }
+
+    for (const index of withPendingToolCalls) {
+      await this.flushToolCalls(index, false);
+    }
+  }
+
+  /**
+   * Holds argument fragments back and returns the tool call headers
+   * (id, type, name) to forward right away. Tool calls stream one after
+   * another, so a new index closes the previous ones.
+   */
+  private async bufferToolCalls(
+    index: number,
+    state: ChoiceState,
+    fragments: OpenAiToolCallDelta[]
+  ): Promise<OpenAiToolCallDelta[]> {
+    const headers: OpenAiToolCallDelta[] = [];
+
+    for (const fragment of fragments) {
+      for (const toolIndex of state.toolArguments.keys()) {
+        if (toolIndex !== fragment.index) {
+          await this.emitToolArguments(index, state, toolIndex);
+        }
+      }
+
+      const { function: fn, ...header } = fragment;
+      if (header.id || header.type || fn?.name) {
+        headers.push({ ...header, function: { ...fn, arguments: '' } });
+      }
+      if (fn?.arguments) {
+        const pending = state.toolArguments.get(fragment.index) ?? '';
+        state.toolArguments.set(fragment.index, pending + fn.arguments);
+      }
+    }
+
+    return headers;
+  }
+
+  /** Emits buffered tool arguments that form complete JSON, or all of them when forced. */
+  private async flushToolCalls(index: number, force: boolean): Promise<void> {
+    const state = this.choices.get(index);
+    if (!state) return;
 
-    return delta.content;
+    for (const [toolIndex, args] of state.toolArguments) {
+      if (force || isCompleteJson(args)) {
+        await this.emitToolArguments(index, state, toolIndex);
+      }
+    }
+  }
+
+  private async emitToolArguments(index: number, state: ChoiceState, toolIndex: number): Promise<void> {
+    const args = state.toolArguments.get(toolIndex);
+    state.toolArguments.delete(toolIndex);
+    if (!args) return;
+
+    const { rehydrator } = this.options;
+    const redacted = await redactJsonText(args, async (text) => {
+      const result = await this.redactionService.redact(text, {
+        preserve: rehydrator?.pseudonyms,
+        policy: this.options.policy,
+        direction: 'response',
+        audit: this.options.audit,
+      });
+      return rehydrator ? rehydrator.apply(result.text) : result.text;
+    });
+
+    const response = {
+      id: this.lastMeta.id,
+      object: 'chat.completion.chunk',
+      created: this.lastMeta.created,
+      model: this.lastMeta.model,
+      choices: [
+        {
+          index,
+          delta: { tool_calls: [{ index: toolIndex, function: { arguments: redacted } }] },
+          finish_reason: null,
+        },
+      ],
+    };
+    this.push(`data: ${JSON.stringify(response)}\n\n`);
+  }
+
+  private getChoice(index: number): ChoiceState {
+    let state = this.choices.get(index);
+    if (!state) {
+      state = {
+        buffer: '',
+        tokenCount: 0,
+        lastFlushTime: Date.now(),
+        flushTimer: null,
+        roleEmitted: false,
+        toolArguments: new Map(),
+      };
+      this.choices.set(index, state);
+    }
+    return state;
   }
 
   /** Determines flush necessity based on boundaries, token limits, or timeouts. */
-  private shouldFlush(): boolean {
-    if (SENTENCE_BOUNDARY.test(this.buffer)) {
+  private shouldFlush(state: ChoiceState): boolean {
+    if (SENTENCE_BOUNDARY.test(state.buffer)) {
       return true;
     }
 
-    if (this.tokenCount >= this.options.maxTokens) {
+    if (state.tokenCount >= this.options.maxTokens) {
       return true;
     }
 
-    if (Date.now() - this.lastFlushTime >= this.options.maxDelayMs) {
+    if (Date.now() - state.lastFlushTime >= this.options.maxDelayMs) {
       return true;
     }
 
@@ -143,39 +335,91 @@ export class PiiRedactionStream extends Transform {
   }
 
   private scheduleFlush(): void {
-    if (this.flushTimer) {
-      clearTimeout(this.flushTimer);
+    for (const [index, state] of this.choices) {
+      if (state.flushTimer) {
+        clearTimeout(state.flushTimer);
+        state.flushTimer = null;
+      }
+
+      if (state.buffer.length > 0) {
+        state.flushTimer = setTimeout(() => {
+          state.flushTimer = null;
+          this.flushChoice(index).catch((err) => {
+            this.emit('error', err);
+          });
+        }, this.options.maxDelayMs);
+      }
     }
+  }
 
-    if (this.buffer.length > 0) {
-      this.flushTimer = setTimeout(() => {
-        this.flushBuffer().catch((err) => {
-          this.emit('error', err);
-        });
-      }, this.options.maxDelayMs);
+  private clearTimers(): void {
+    for (const state of this.choices.values()) {
+      if (state.flushTimer) {
+        clearTimeout(state.flushTimer);
+        state.flushTimer = null;
+      }
     }
   }
 
-  /** Processes buffered text through redaction service and emits SSE event. */
-  private async flushBuffer(): Promise<void> {
-    if (this.buffer.length === 0) return;
+  private async flushAll(force = false): Promise<void> {
+    for (const index of this.choices.keys()) {
+      await this.flushChoice(index, force);
+      await this.flushToolCalls(index, force);
+    }
+  }
 
-    const textToProcess = this.buffer;
-    this.buffer = '';
-    this.tokenCount = 0;
-    this.lastFlushTime = Date.now();
+  /** Queues a choice flush behind any in flight, so its text is out once it resolves. */
+  private flushChoice(index: number, force = false): Promise<void> {
+    const flush = this.flushQueue.then(() => this.emitPending(index, force));
+    this.flushQueue = flush.catch(() => undefined);
+    return flush;
+  }
 
-    const result = await this.redactionService.redact(textToProcess);
-    const sseData = this.formatAsOpenAiSSE(result.text);
+  /**
+   * Processes a choice's buffered text through redaction service and emits SSE event.
+   * Unless forced, a tail that could start a vaulted pseudonym is held back.
+   */
+  private async emitPending(index: number, force: boolean): Promise<void> {
+    const state = this.choices.get(index);
+    if (!state || state.buffer.length === 0) return;
+
+    const { rehydrator } = this.options;
+    const held = !force && rehydrator ? rehydrator.pendingPrefixLength(state.buffer) : 0;
+    const textToProcess = state.buffer.slice(0, state.buffer.length - held);
+    if (textToProcess.length === 0) return;
+
+    state.buffer = state.buffer.slice(textToProcess.length);
+    state.tokenCount = this.estimateTokens(state.buffer);
+    state.lastFlushTime = Date.now();
+
+    const result = await this.redactionService.redact(textToProcess, {
+      preserve: rehydrator?.pseudonyms,
+      policy: this.options.policy,
+      direction: 'response',
+      audit: this.options.audit,
+    });
+    const text = rehydrator ? rehydrator.apply(result.text) : result.text;
+    const sseData = this.formatAsOpenAiSSE(index, state, text);
     this.push(sseData);
   }
 
-  private formatAsOpenAiSSE(text: string): string {
+  private formatAsOpenAiSSE(index: number, state: ChoiceState, text: string): string {
+    if (this.textCompletion) {
+      const response = {
+        id: this.lastMeta.id,
+        object: 'text_completion',
+        created: this.lastMeta.created,
+        model: this.lastMeta.model,
+        choices: [{ index, text, logprobs: null, finish_reason: null }],
+      };
+      return `data: ${JSON.stringify(response)}\n\n`;
+    }
+
     const delta: Record<string, unknown> = { content: text };
 
-    if (this.lastMeta.role && !this.roleEmitted) {
-      delta.role = this.lastMeta.role;
-      this.roleEmitted = true;
+    if (state.role && !state.roleEmitted) {
+      delta.role = state.role;
+      state.roleEmitted = true;
     }
 
     const response = {
@@ -185,7 +429,7 @@ export class PiiRedactionStream extends Transform {
       model: this.lastMeta.model,
       choices: [
         {
-          index: this.lastMeta.index ?? 0,
+          index,
           delta,
           finish_reason: null,
         },
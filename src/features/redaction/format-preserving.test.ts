@@ -0,0 +1,135 @@
+import { faker } from '@faker-js/faker';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  fakeCardNumber,
+  fakeDate,
+  fakeIban,
+  fakePhoneNumber,
+  fakeSsn,
+  luhnCheckDigit,
+} from './format-preserving.js';
+import { isValidSsn } from './recognizers/validators.js';
+
+const SEEDS = Array.from({ length: 50 }, (_, i) => i + 1);
+
+function isLuhnValid(digits: string): boolean {
+  return luhnCheckDigit(digits.slice(0, -1)) === digits.slice(-1);
+}
+
+/** ISO 13616: the rearranged IBAN, letters as 10-35, is 1 mod 97. */
+function isIbanValid(iban: string): boolean {
+  const compact = iban.replace(/[\s-]/g, '');
+  const rearranged = `${compact.slice(4)}${compact.slice(0, 4)}`.replace(/[A-Z]/g, (char) =>
+    (char.charCodeAt(0) - 55).toString()
+  );
+  return BigInt(rearranged) % 97n === 1n;
+}
+
+describe('luhnCheckDigit', () => {
+  it('computes the check digit of known numbers', () => {
+    expect(luhnCheckDigit('7992739871')).toBe('3');
+    expect(luhnCheckDigit('411111111111111')).toBe('1');
+    expect(luhnCheckDigit('37828224631000')).toBe('5');
+  });
+});
+
+describe('fakeCardNumber', () => {
+  it.each(['4111 1111 1111 1111', '5500-0000-0000-0004', '378282246310005', '6011111111111117'])(
+    'keeps the network prefix and grouping of %s with a valid check digit',
+    (original) => {
+      for (const seed of SEEDS) {
+        faker.seed(seed);
+        const fake = fakeCardNumber(original);
+
+        expect(fake.replace(/\d/g, '0')).toBe(original.replace(/\d/g, '0'));
+        expect(isLuhnValid(fake.replace(/\D/g, ''))).toBe(true);
+        expect(fake[0]).toBe(original[0]);
+      }
+    }
+  );
+});
+
+describe('fakeIban', () => {
+  it.each(['GB82 WEST 1234 5698 7654 32', 'DE89370400440532013000', 'NL91-ABNA-0417-1643-00'])(
+    'generates %s-shaped IBANs that pass mod-97',
+    (original) => {
+      for (const seed of SEEDS) {
+        faker.seed(seed);
+        const fake = fakeIban(original)!;
+
+        expect(fake.slice(0, 2)).toBe(original.slice(0, 2));
+        expect(fake.replace(/[A-Z]/g, 'A').replace(/\d/g, '0')).toBe(
+          original.replace(/[A-Z]/g, 'A').replace(/\d/g, '0')
+        );
+        expect(isIbanValid(fake)).toBe(true);
+      }
+    }
+  );
+
+  it('returns null for text that is not IBAN-shaped', () => {
+    expect(fakeIban('12345678')).toBeNull();
+  });
+});
+
+describe('fakeSsn', () => {
+  it('passes SSN validation, keeping separators', () => {
+    for (const seed of SEEDS) {
+      faker.seed(seed);
+      const fake = fakeSsn('123-45-6789');
+
+      expect(fake).toMatch(/^\d{3}-\d{2}-\d{4}$/);
+      expect(isValidSsn(fake)).toBe(true);
+    }
+  });
+
+  it('keeps space separators and compact numbers', () => {
+    faker.seed(1);
+    expect(fakeSsn('123 45 6789')).toMatch(/^\d{3} \d{2} \d{4}$/);
+    expect(fakeSsn('123456789')).toMatch(/^\d{9}$/);
+  });
+});
+
+describe('fakePhoneNumber', () => {
+  it.each(['(415) 555-2671', '+1 415.555.2671', '+14155552671', '415-555-2671'])(
+    'gives %s a valid North American area code and exchange',
+    (original) => {
+      for (const seed of SEEDS) {
+        faker.seed(seed);
+        const fake = fakePhoneNumber(original);
+        const national = fake.replace(/^\+1/, '').replace(/\D/g, '');
+
+        expect(fake.replace(/\d/g, '0')).toBe(original.replace(/\d/g, '0'));
+        expect(national[0]).toMatch(/[2-9]/);
+        expect(national[3]).toMatch(/[2-9]/);
+      }
+    }
+  );
+
+  it('keeps the country code and trunk prefix of international numbers', () => {
+    for (const seed of SEEDS) {
+      faker.seed(seed);
+      expect(fakePhoneNumber('+44 20 7946 0958')).toMatch(/^\+44 \d{2} \d{4} \d{4}$/);
+      expect(fakePhoneNumber('020 7946 0958')).toMatch(/^0\d{2} \d{4} \d{4}$/);
+    }
+  });
+});
+
+describe('fakeDate', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('gives a date the same pseudonym regardless of the current time', () => {
+    const fakeAt = (now: string) => {
+      vi.setSystemTime(new Date(now));
+      faker.seed(42);
+      return fakeDate('03/14/1985');
+    };
+
+    expect(fakeAt('2026-01-01T00:00:00Z')).toBe(fakeAt('2031-07-15T12:00:00Z'));
+  });
+});
@@ -0,0 +1,216 @@
+import { faker } from '@faker-js/faker';
+import { isValidSsn } from './recognizers/validators.js';
+
+/**
+ * Format-preserving fakes for structured identifiers. Every helper draws from
+ * the shared faker PRNG, so callers seed it first to get deterministic output.
+ */
+
+function randomDigit(min = 0): string {
+  return faker.number.int({ min, max: 9 }).toString();
+}
+
+function randomLetter(upper: boolean): string {
+  return faker.string.alpha({ length: 1, casing: upper ? 'upper' : 'lower' });
+}
+
+/**
+ * Replaces every digit with a random digit and every letter with a random
+ * letter of the same case; separators, grouping and length are kept.
+ */
+export function randomizeShape(original: string): string {
+  return original.replace(/[0-9]|\p{L}/gu, (char) => {
+    if (/[0-9]/.test(char)) return randomDigit();
+    return randomLetter(char === char.toUpperCase() && char !== char.toLowerCase());
+  });
+}
+
+/** Writes `digits` into the digit positions of `template`, keeping everything else. */
+function fillDigits(template: string, digits: string): string {
+  let next = 0;
+  return template.replace(/\d/g, () => digits[next++] ?? '0');
+}
+
+/** Applies the original's casing style (all upper, all lower, or as generated). */
+export function matchCase(original: string, generated: string): string {
+  const letters = original.replace(/[^\p{L}]/gu, '');
+  if (!letters) return generated;
+  if (letters === letters.toUpperCase()) return generated.toUpperCase();
+  if (letters === letters.toLowerCase()) return generated.toLowerCase();
+  return generated;
+}
+
+export function luhnCheckDigit(payload: string): string {
+  let sum = 0;
+  let double = true;
+  for (let i = payload.length - 1; i >= 0; i--) {
+    let digit = payload.charCodeAt(i) - 48;
+    if (double) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+    double = !double;
+  }
+  return ((10 - (sum % 10)) % 10).toString();
+}
+
+/** Length of the network-identifying prefix kept from the original card number. */
+function issuerPrefixLength(digits: string): number {
+  if (/^(6011|22[2-9]\d|2[3-6]\d\d|27[01]\d|2720)/.test(digits)) return 4;
+  if (/^(3[0-8]|5[1-5]|6[245])/.test(digits)) return 2;
+  return 1;
+}
+
+/** Same network prefix, length and grouping as the original, with a valid Luhn digit. */
+export function fakeCardNumber(original: string): string {
+  const digits = original.replace(/\D/g, '');
+  const prefix = digits.slice(0, issuerPrefixLength(digits));
+
+  let payload = prefix;
+  while (payload.length < digits.length - 1) {
+    payload += randomDigit();
+  }
+  return fillDigits(original, payload + luhnCheckDigit(payload));
+}
+
+/**
+ * Structurally valid SSNs: area 001-899 except 666, group 01-99 and serial
+ * 0001-9999, so downstream validators accept them. Any such number may
+ * coincide with an issued one. The 3-2-4 shape and separators are kept.
+ */
+export function fakeSsn(original: string): string {
+  let digits: string;
+  do {
+    const area = faker.number.int({ min: 1, max: 899 }).toString().padStart(3, '0');
+    const group = faker.number.int({ min: 1, max: 99 }).toString().padStart(2, '0');
+    const serial = faker.number.int({ min: 1, max: 9999 }).toString().padStart(4, '0');
+    digits = area + group + serial;
+  } while (!isValidSsn(digits));
+
+  return original.replace(/\D/g, '').length === 9 ? fillDigits(original, digits) : digits;
+}
+
+/**
+ * Keeps the country prefix, separators and grouping. Ten-digit North American
+ * numbers get area code and exchange digits in the valid 2-9 range.
+ */
+export function fakePhoneNumber(original: string): string {
+  // Country code: "+44 " / "0044-" when separated, "+1" on compact NANP numbers, else two digits
+  const prefix =
+    original.match(/^\s*(?:\+|00)\d{1,3}(?=[\s.()-])/)?.[0] ??
+    original.match(/^\s*\+1(?=\d{10}$)/)?.[0] ??
+    original.match(/^\s*(?:\+|00)\d{2}/)?.[0] ??
+    '';
+  const rest = original.slice(prefix.length);
+  const restDigits = rest.replace(/\D/g, '');
+  const northAmerican = restDigits.length === 10 && (!prefix || /^\s*(?:\+|00)1$/.test(prefix));
+
+  let digits = '';
+  for (let i = 0; i < restDigits.length; i++) {
+    if (northAmerican && (i === 0 || i === 3)) {
+      digits += randomDigit(2);
+    } else if (i === 0 && restDigits[0] === '0') {
+      // Trunk prefix of national formats ("020 ...") stays
+      digits += '0';
+    } else {
+      digits += randomDigit(i === 0 ? 1 : 0);
+    }
+  }
+  return prefix + fillDigits(rest, digits);
+}
+
+/** Rewrites an IBAN's BBAN by shape and recomputes its mod-97 check digits. */
+export function fakeIban(original: string): string | null {
+  const compact = original.replace(/[\s-]/g, '').toUpperCase();
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]+$/.test(compact)) return null;
+
+  const country = compact.slice(0, 2);
+  const bban = randomizeShape(compact.slice(4));
+
+  let remainder = 0;
+  for (const char of `${bban}${country}00`) {
+    const expanded = /[A-Z]/.test(char) ? (char.charCodeAt(0) - 55).toString() : char;
+    for (const digit of expanded) {
+      remainder = (remainder * 10 + (digit.charCodeAt(0) - 48)) % 97;
+    }
+  }
+  const check = (98 - remainder).toString().padStart(2, '0');
+
+  let next = 0;
+  const generated = `${country}${check}${bban}`;
+  return original.replace(/[A-Za-z0-9]/g, () => generated[next++] ?? '');
+}
+
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+
+function isMonthName(text: string): boolean {
+  const name = text.replace(/\.$/, '').toLowerCase();
+  return MONTHS.some((month) => month === name || (name.length === 3 && month.startsWith(name)));
+}
+
+function formatMonthName(month: number, original: string): string {
+  const full = MONTHS[month - 1]!;
+  const name = original.replace(/\.$/, '').length <= 3 ? full.slice(0, 3) : full;
+  const cased = matchCase(original, name.charAt(0).toUpperCase() + name.slice(1));
+  return original.endsWith('.') ? `${cased}.` : cased;
+}
+
+function formatNumber(value: number, original: string): string {
+  if (original.length === 2 && value >= 100) return (value % 100).toString().padStart(2, '0');
+  return value.toString().padStart(original.length, '0');
+}
+
+/** Fixed "today" for birth dates, so an original keeps its pseudonym over time. */
+const BIRTHDATE_REF_DATE = Date.UTC(2025, 0, 1);
+
+/** An adult's birth date; read it with the UTC getters so the server time zone does not matter. */
+export function fakeBirthdate(): Date {
+  return faker.date.birthdate({ min: 18, max: 80, mode: 'age', refDate: BIRTHDATE_REF_DATE });
+}
+
+/**
+ * Renders a fake birth date in the original's layout: numeric day/month/year
+ * in any order and separator (zero padding and 2-digit years kept), or month
+ * names. Ambiguous numeric dates are read as month-first unless the first
+ * field exceeds 12. Returns null when the layout is not recognized.
+ */
+export function fakeDate(original: string): string | null {
+  const date = fakeBirthdate();
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + 1;
+  const day = date.getUTCDate();
+
+  const numeric = original.match(/^(\d{1,4})([-/. ])(\d{1,2})\2(\d{1,4})$/);
+  if (numeric) {
+    const [, first = '', separator = '', second = '', third = ''] = numeric;
+    if (first.length === 4) {
+      return [formatNumber(year, first), formatNumber(month, second), formatNumber(day, third)].join(separator);
+    }
+    const dayFirst = parseInt(first, 10) > 12;
+    // When the original reads either way, keep the day <= 12 so the fake does too
+    const ambiguous = !dayFirst && parseInt(second, 10) <= 12;
+    const safeDay = ambiguous ? ((day - 1) % 12) + 1 : day;
+    const fields = dayFirst
+      ? [formatNumber(safeDay, first), formatNumber(month, second)]
+      : [formatNumber(month, first), formatNumber(safeDay, second)];
+    return [...fields, formatNumber(year, third)].join(separator);
+  }
+
+  const monthFirst = original.match(/^([A-Za-z]{3,9}\.?)(\s+)(\d{1,2})(,?\s+)(\d{2,4})$/);
+  if (monthFirst && isMonthName(monthFirst[1]!)) {
+    const [, name = '', gap = '', dayText = '', comma = '', yearText = ''] = monthFirst;
+    return `${formatMonthName(month, name)}${gap}${formatNumber(day, dayText)}${comma}${formatNumber(year, yearText)}`;
+  }
+
+  const dayFirst = original.match(/^(\d{1,2})(\s+)([A-Za-z]{3,9}\.?)(,?\s+)(\d{2,4})$/);
+  if (dayFirst && isMonthName(dayFirst[3]!)) {
+    const [, dayText = '', gap = '', name = '', comma = '', yearText = ''] = dayFirst;
+    return `${formatNumber(day, dayText)}${gap}${formatMonthName(month, name)}${comma}${formatNumber(year, yearText)}`;
+  }
+
+  return null;
+}
@@ -1,3 +1,22 @@
-export { RedactionService } from './redaction.service.js';
-export type { RedactionOptions, RedactionResult } from './redaction.service.js';
-export { getDeterministicReplacement, getSimpleRedaction } from './replacement.utils.js';
+export { RedactionService, InferenceTimeoutError, PolicyViolationError } from './redaction.service.js';
+export type {
+  RedactionOptions,
+  RedactionResult,
+  RedactionContext,
+  ReplacementRecord,
+} from './redaction.service.js';
+export { PiiFindings } from './pii-findings.js';
+export { SaltKeyring } from './salt-keyring.js';
+export type { SaltScope, SaltKeyringConfig, MasterKey, DerivedSalt } from './salt-keyring.js';
+export {
+  getDeterministicReplacement,
+  getMaskedRedaction,
+  getSimpleRedaction,
+} from './replacement.utils.js';
+export {
+  PatternRecognizer,
+  ModelRecognizer,
+  createBuiltinRecognizers,
+  mergeEntities,
+} from './recognizers/index.js';
+export type { Recognizer, PatternDefinition } from './recognizers/index.js';
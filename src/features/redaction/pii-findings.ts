@@ -0,0 +1,37 @@
+import type { PiiEntity, PiiEntityType } from '../../shared/types/pii.types.js';
+
+/** Tally of the entities redaction found across one request, prompt and response. */
+export class PiiFindings {
+  private counts = new Map<PiiEntityType, number>();
+  private blocked = new Set<PiiEntityType>();
+
+  record(entities: PiiEntity[], blockedTypes: PiiEntityType[] = []): void {
+    for (const entity of entities) {
+      this.counts.set(entity.type, (this.counts.get(entity.type) ?? 0) + 1);
+    }
+    for (const type of blockedTypes) {
+      this.blocked.add(type);
+    }
+  }
+
+  get total(): number {
+    let total = 0;
+    for (const count of this.counts.values()) total += count;
+    return total;
+  }
+
+  /** `X-PII-Detected`, plus `X-PII-Types` ("EMAIL=2,PERSON=1") and `X-PII-Would-Block` when non-empty. */
+  toHeaders(): Record<string, string> {
+    const headers: Record<string, string> = { 'X-PII-Detected': String(this.total) };
+    if (this.counts.size > 0) {
+      headers['X-PII-Types'] = [...this.counts]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([type, count]) => `${type}=${count}`)
+        .join(',');
+    }
+    if (this.blocked.size > 0) {
+      headers['X-PII-Would-Block'] = [...this.blocked].sort().join(',');
+    }
+    return headers;
+  }
+}
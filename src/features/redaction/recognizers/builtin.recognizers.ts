@@ -0,0 +1,89 @@
+import { PatternRecognizer } from './pattern.recognizer.js';
+import { isValidIban, isValidIpv4, isValidIpv6, isValidLuhn, isValidSsn } from './validators.js';
+import type { Recognizer } from './recognizer.types.js';
+
+const hasDigit = (value: string) => /\d/.test(value);
+
+/**
+ * Rule-based recognizers covering structured identifiers the model
+ * misses or cannot label (IP_ADDRESS, URL, PASSPORT, MEDICAL_ID).
+ * Checksum-validated patterns carry the highest priority.
+ */
+export function createBuiltinRecognizers(): Recognizer[] {
+  return [
+    new PatternRecognizer({
+      name: 'email-pattern',
+      type: 'EMAIL',
+      pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}\b/g,
+      confidence: 0.98,
+      priority: 20,
+    }),
+    new PatternRecognizer({
+      name: 'credit-card-luhn',
+      type: 'CREDIT_CARD',
+      pattern: /\b\d(?:[ -]?\d){11,18}\b/g,
+      confidence: 0.99,
+      priority: 20,
+      validate: isValidLuhn,
+    }),
+    new PatternRecognizer({
+      name: 'us-ssn',
+      type: 'SSN',
+      pattern: /\b\d{3}([- ])\d{2}\1\d{4}\b/g,
+      confidence: 0.9,
+      priority: 15,
+      validate: isValidSsn,
+    }),
+    new PatternRecognizer({
+      name: 'iban-mod97',
+      type: 'BANK_ACCOUNT',
+      pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,4})?\b/g,
+      confidence: 0.99,
+      priority: 20,
+      validate: isValidIban,
+    }),
+    new PatternRecognizer({
+      name: 'ipv4',
+      type: 'IP_ADDRESS',
+      pattern: /\b(?:\d{1,3}\.){3}\d{1,3}\b/g,
+      confidence: 0.95,
+      priority: 15,
+      validate: isValidIpv4,
+    }),
+    new PatternRecognizer({
+      name: 'ipv6',
+      type: 'IP_ADDRESS',
+      pattern: /(?<![\w:.])(?:[0-9A-Fa-f]{0,4}:){2,7}(?:(?:\d{1,3}\.){3}\d{1,3}|[0-9A-Fa-f]{1,4})?(?![\w:.])/g,
+      confidence: 0.95,
+      priority: 15,
+      // Reject bare "::" and short time-like tokens
+      validate: (value) => value.replace(/[^0-9A-Fa-f]/g, '').length >= 4 && isValidIpv6(value),
+    }),
+    new PatternRecognizer({
+      name: 'url',
+      type: 'URL',
+      pattern: /\b(?:https?|ftp):\/\/[^\s<>"'`]*[^\s<>"'`.,;:!?)\]]/g,
+      confidence: 0.7,
+      priority: 5,
+    }),
+    new PatternRecognizer({
+      name: 'passport-context',
+      type: 'PASSPORT',
+      pattern: /\bpassport(?:\s+(?:no\.?|number|num|#))?\s*[:#]?\s*([A-Z0-9]{6,9})\b/gi,
+      group: 1,
+      confidence: 0.85,
+      priority: 15,
+      validate: hasDigit,
+    }),
+    new PatternRecognizer({
+      name: 'medical-id-context',
+      type: 'MEDICAL_ID',
+      pattern:
+        /\b(?:MRN|medical record(?:\s+(?:no\.?|number|#))?|patient id|(?:health insurance|medicare|medicaid)(?:\s+(?:id|no\.?|number|#))?)\s*[:#]?\s*([A-Z0-9][A-Z0-9-]{5,13})\b/gi,
+      group: 1,
+      confidence: 0.85,
+      priority: 15,
+      validate: hasDigit,
+    }),
+  ];
+}
@@ -0,0 +1,29 @@
+import type { PiiEntity } from '../../../shared/types/pii.types.js';
+
+/**
+ * Combines spans from multiple recognizers into a non-overlapping set.
+ * Overlaps are resolved by confidence, then recognizer priority, then span length.
+ */
+export function mergeEntities(
+  entities: PiiEntity[],
+  priorities: ReadonlyMap<string, number>
+): PiiEntity[] {
+  const ranked = [...entities].sort((a, b) => {
+    if (b.confidence !== a.confidence) return b.confidence - a.confidence;
+
+    const priorityDiff = (priorities.get(b.recognizer) ?? 0) - (priorities.get(a.recognizer) ?? 0);
+    if (priorityDiff !== 0) return priorityDiff;
+
+    return (b.end - b.start) - (a.end - a.start);
+  });
+
+  const accepted: PiiEntity[] = [];
+  for (const candidate of ranked) {
+    const overlaps = accepted.some((e) => candidate.start < e.end && candidate.end > e.start);
+    if (!overlaps) {
+      accepted.push(candidate);
+    }
+  }
+
+  return accepted.sort((a, b) => a.start - b.start);
+}
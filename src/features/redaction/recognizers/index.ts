@@ -0,0 +1,6 @@
+export { PatternRecognizer } from './pattern.recognizer.js';
+export type { PatternDefinition } from './pattern.recognizer.js';
+export { ModelRecognizer } from './model.recognizer.js';
+export { createBuiltinRecognizers } from './builtin.recognizers.js';
+export { mergeEntities } from './entity-merger.js';
+export type { Recognizer } from './recognizer.types.js';
@@ -0,0 +1,32 @@
+import type { Recognizer } from './recognizer.types.js';
+import type { ModelSession } from '../../../engine/model-loader.js';
+import { runInference } from '../../../engine/inference-runner.js';
+import { InferencePool } from '../../../engine/inference-pool.js';
+import { MODEL_ENTITY_TYPES } from '../../../engine/labels.js';
+import { inferenceDuration, inferenceTextLength } from '../../../infrastructure/metrics/metrics.js';
+import type { PiiEntity, PiiEntityType } from '../../../shared/types/pii.types.js';
+
+/**
+ * Adapts the token classification model to the recognizer contract.
+ * Runs on a worker pool when given one, otherwise on the calling thread.
+ */
+export class ModelRecognizer implements Recognizer {
+  readonly name = 'model';
+  readonly priority = 10;
+  readonly supportedTypes: readonly PiiEntityType[] = MODEL_ENTITY_TYPES;
+  private engine: ModelSession | InferencePool;
+
+  constructor(engine: ModelSession | InferencePool) {
+    this.engine = engine;
+  }
+
+  async analyze(text: string, signal?: AbortSignal): Promise<PiiEntity[]> {
+    const result = this.engine instanceof InferencePool
+      ? await this.engine.run(text, signal)
+      : await runInference(this.engine, text);
+
+    inferenceDuration.observe(result.processingTimeMs / 1000);
+    inferenceTextLength.observe(text.length);
+    return result.entities;
+  }
+}
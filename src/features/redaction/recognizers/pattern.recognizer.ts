@@ -0,0 +1,65 @@
+import type { Recognizer } from './recognizer.types.js';
+import type { PiiEntity, PiiEntityType } from '../../../shared/types/pii.types.js';
+
+export interface PatternDefinition {
+  name: string;
+  type: PiiEntityType;
+  pattern: RegExp;
+  confidence: number;
+  priority?: number;
+  /** Capture group holding the value when the pattern also matches surrounding context. */
+  group?: number;
+  validate?: (value: string) => boolean;
+}
+
+/**
+ * Regex-driven recognizer with optional checksum validation.
+ * Matches that fail validation are discarded rather than down-scored.
+ */
+export class PatternRecognizer implements Recognizer {
+  readonly name: string;
+  readonly priority: number;
+  readonly supportedTypes: readonly PiiEntityType[];
+  private definition: PatternDefinition;
+  private pattern: RegExp;
+
+  constructor(definition: PatternDefinition) {
+    if (!definition.pattern.global) {
+      throw new Error(`Pattern for recognizer "${definition.name}" must use the global flag`);
+    }
+
+    this.definition = definition;
+    // Match indices are needed to locate capture groups inside context matches
+    this.pattern = definition.pattern.hasIndices
+      ? definition.pattern
+      : new RegExp(definition.pattern.source, `${definition.pattern.flags}d`);
+    this.name = definition.name;
+    this.priority = definition.priority ?? 10;
+    this.supportedTypes = [definition.type];
+  }
+
+  async analyze(text: string): Promise<PiiEntity[]> {
+    const { group = 0, type, confidence, validate } = this.definition;
+    const entities: PiiEntity[] = [];
+
+    for (const match of text.matchAll(this.pattern)) {
+      const value = match[group];
+      const span = match.indices?.[group];
+      if (!value || !span) continue;
+
+      const [start, end] = span;
+      if (validate && !validate(value)) continue;
+
+      entities.push({
+        type,
+        text: value,
+        start,
+        end,
+        confidence,
+        recognizer: this.name,
+      });
+    }
+
+    return entities;
+  }
+}
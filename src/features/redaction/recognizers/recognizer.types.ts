@@ -0,0 +1,13 @@
+import type { PiiEntity, PiiEntityType } from '../../../shared/types/pii.types.js';
+
+/**
+ * Detector contract shared by the ONNX model and rule-based recognizers.
+ * Higher priority wins when overlapping spans have equal confidence.
+ */
+export interface Recognizer {
+  readonly name: string;
+  readonly priority: number;
+  readonly supportedTypes: readonly PiiEntityType[];
+  /** `signal` aborts when the redaction deadline passes; recognizers may ignore it. */
+  analyze(text: string, signal?: AbortSignal): Promise<PiiEntity[]>;
+}
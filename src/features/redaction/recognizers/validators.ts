@@ -0,0 +1,108 @@
+/**
+ * Checksum and structural validators used by pattern recognizers
+ * to discard regex matches that cannot be real identifiers.
+ */
+
+/** Luhn (mod 10) check used by payment card numbers. */
+export function isValidLuhn(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length < 12 || digits.length > 19) return false;
+
+  let sum = 0;
+  let double = false;
+  for (let i = digits.length - 1; i >= 0; i--) {
+    let digit = digits.charCodeAt(i) - 48;
+    if (double) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+    double = !double;
+  }
+
+  return sum % 10 === 0;
+}
+
+/**
+ * US SSN structural rules: area 000, 666 and 900-999 are never issued,
+ * nor are group 00 or serial 0000.
+ */
+export function isValidSsn(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length !== 9) return false;
+
+  const area = parseInt(digits.slice(0, 3), 10);
+  const group = parseInt(digits.slice(3, 5), 10);
+  const serial = parseInt(digits.slice(5), 10);
+
+  if (area === 0 || area === 666 || area >= 900) return false;
+  if (group === 0 || serial === 0) return false;
+
+  // Well-known advertising/sample numbers
+  if (digits === '078051120' || digits === '219099999') return false;
+
+  return true;
+}
+
+export function isValidIpv4(value: string): boolean {
+  const octets = value.split('.');
+  if (octets.length !== 4) return false;
+
+  return octets.every((octet) => {
+    if (!/^\d{1,3}$/.test(octet)) return false;
+    if (octet.length > 1 && octet.startsWith('0')) return false;
+    return parseInt(octet, 10) <= 255;
+  });
+}
+
+export function isValidIpv6(value: string): boolean {
+  let address = value;
+
+  // Embedded IPv4 tail (e.g. ::ffff:192.168.0.1) occupies two groups
+  const tailStart = address.lastIndexOf(':') + 1;
+  const tail = address.slice(tailStart);
+  if (tail.includes('.')) {
+    if (!isValidIpv4(tail)) return false;
+    address = address.slice(0, tailStart) + '0:0';
+  }
+
+  const halves = address.split('::');
+  if (halves.length > 2) return false;
+
+  const groups = halves.flatMap((half) => (half === '' ? [] : half.split(':')));
+  if (!groups.every((group) => /^[0-9a-fA-F]{1,4}$/.test(group))) return false;
+
+  return halves.length === 2 ? groups.length < 8 : groups.length === 8;
+}
+
+const IBAN_LENGTHS: Record<string, number> = {
+  AD: 24, AE: 23, AT: 20, BE: 16, BG: 22, BH: 22, BR: 29, CH: 21, CY: 28,
+  CZ: 24, DE: 22, DK: 18, EE: 20, ES: 24, FI: 18, FR: 27, GB: 22, GI: 23,
+  GR: 27, HR: 21, HU: 28, IE: 22, IL: 23, IS: 26, IT: 27, KW: 30, KZ: 20,
+  LB: 28, LI: 21, LT: 20, LU: 20, LV: 21, MC: 27, MT: 31, MU: 30, NL: 18,
+  NO: 15, PK: 24, PL: 28, PT: 25, QA: 29, RO: 24, RS: 22, SA: 24, SE: 24,
+  SI: 19, SK: 24, SM: 27, TN: 24, TR: 26, UA: 29,
+};
+
+/** ISO 13616 IBAN check: country length table plus mod-97 remainder of 1. */
+export function isValidIban(value: string): boolean {
+  const iban = value.replace(/[\s-]/g, '').toUpperCase();
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]+$/.test(iban)) return false;
+
+  const expectedLength = IBAN_LENGTHS[iban.slice(0, 2)];
+  if (expectedLength !== undefined && iban.length !== expectedLength) return false;
+  if (iban.length < 15 || iban.length > 34) return false;
+
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+
+  // Process digit-expanded string in chunks to stay within safe integer range
+  let remainder = 0;
+  for (const char of rearranged) {
+    const expanded = /[A-Z]/.test(char) ? (char.charCodeAt(0) - 55).toString() : char;
+    for (const digit of expanded) {
+      remainder = (remainder * 10 + (digit.charCodeAt(0) - 48)) % 97;
+    }
+  }
+
+  return remainder === 1;
+}
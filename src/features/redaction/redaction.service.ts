@@ -1,11 +1,30 @@
 import type { ModelSession } from '../../engine/model-loader.js';
-import { runInference } from '../../engine/inference-runner.js';
-import { getDeterministicReplacement, getSimpleRedaction } from './replacement.utils.js';
-import type { PiiEntity, DetectionResult } from '../../shared/types/pii.types.js';
+import type { InferencePool } from '../../engine/inference-pool.js';
+import {
+  getDeterministicReplacement,
+  getMaskedRedaction,
+  getSimpleRedaction,
+} from './replacement.utils.js';
+import {
+  ModelRecognizer,
+  createBuiltinRecognizers,
+  mergeEntities,
+  type Recognizer,
+} from './recognizers/index.js';
+import type { PiiFindings } from './pii-findings.js';
+import type { DerivedSalt, SaltKeyring } from './salt-keyring.js';
+import type { PiiEntity, PiiEntityType, DetectionResult } from '../../shared/types/pii.types.js';
+import type { RedactionAction, RedactionPolicy } from '../../shared/types/policy.types.js';
+import type { AuditContext, AuditDirection, AuditOutcome } from '../../shared/types/audit.types.js';
+import type { AuditService } from '../audit/index.js';
+import type { DictionaryService } from '../dictionary/index.js';
+import { DEFAULT_TENANT_ID } from '../policy/index.js';
+import { entitiesRedacted, inferenceTimeouts } from '../../infrastructure/metrics/metrics.js';
 
 export interface RedactionOptions {
   useDeterministicReplacement: boolean;
-  salt: string;
+  /** Source of the per-tenant (or per-session) salts behind deterministic pseudonyms. */
+  keyring: SaltKeyring;
   timeoutMs: number;
   failStrategy: 'closed' | 'open';
 }
@@ -17,81 +36,194 @@ export class InferenceTimeoutError extends Error {
   }
 }
 
+/** Raised when a tenant policy blocks a request outright. */
+export class PolicyViolationError extends Error {
+  readonly statusCode = 403;
+  readonly entityTypes: PiiEntityType[];
+
+  constructor(entityTypes: PiiEntityType[]) {
+    super(`Request blocked by redaction policy: contains ${entityTypes.join(', ')}`);
+    this.name = 'PolicyViolationError';
+    this.entityTypes = entityTypes;
+  }
+}
+
+/** A pseudonym substituted for an original value during redaction. */
+export interface ReplacementRecord {
+  original: string;
+  replacement: string;
+  type: PiiEntityType;
+}
+
 export interface RedactionResult {
   text: string;
   entities: PiiEntity[];
+  replacements: ReplacementRecord[];
   processingTimeMs: number;
 }
 
+/** Per-call adjustments layered on top of the service-wide options. */
+export interface RedactionContext {
+  /** Values left untouched wherever they occur, e.g. pseudonyms awaiting re-hydration. */
+  preserve?: ReadonlySet<string>;
+  /** Tenant policy; without one every entity is replaced per the service options. */
+  policy?: RedactionPolicy;
+  /** 'block' only rejects prompts; blocked types found in responses are label-redacted. */
+  direction?: AuditDirection;
+  /** Session and route to attribute the audit event to; no event is recorded without it. */
+  audit?: AuditContext;
+  /** Collects what shadow-mode calls detected, for reporting back to the client. */
+  findings?: PiiFindings;
+}
+
 /**
  * Orchestrates PII detection and replacement with fail-safe mechanisms.
+ * Model spans are merged with rule-based recognizer spans.
  */
 export class RedactionService {
-  private modelSession: ModelSession;
   private options: RedactionOptions;
+  private recognizers: Recognizer[];
+  private auditService: AuditService | null = null;
+  private dictionaryService: DictionaryService | null = null;
 
-  constructor(modelSession: ModelSession, options: RedactionOptions) {
-    this.modelSession = modelSession;
+  constructor(
+    modelSession: ModelSession | InferencePool,
+    options: RedactionOptions,
+    recognizers: Recognizer[] = createBuiltinRecognizers()
+  ) {
     this.options = options;
+    this.recognizers = [new ModelRecognizer(modelSession), ...recognizers];
+  }
+
+  /** Adds a recognizer; spans it produces are merged on the next call. */
+  registerRecognizer(recognizer: Recognizer): void {
+    this.recognizers = [
+      ...this.recognizers.filter((r) => r.name !== recognizer.name),
+      recognizer,
+    ];
+  }
+
+  /** Records an audit event for every redaction that carries an audit context. */
+  setAuditService(auditService: AuditService): void {
+    this.auditService = auditService;
+  }
+
+  /** Applies each tenant's allowlist and denylist on top of recognizer output. */
+  setDictionaryService(dictionaryService: DictionaryService): void {
+    this.dictionaryService = dictionaryService;
   }
 
   /**
    * Identifies and replaces PII entities in text.
-   * Respects configured timeout and fail strategies.
+   * Respects configured timeout and fail strategies. In shadow mode the text
+   * comes back unchanged and nothing is blocked; only the audit trail and
+   * `context.findings` record what enforcement would have done.
    */
-  async redact(text: string): Promise<RedactionResult> {
+  async redact(text: string, context: RedactionContext = {}): Promise<RedactionResult> {
     if (!text || text.trim().length === 0) {
-      return { text, entities: [], processingTimeMs: 0 };
+      return { text, entities: [], replacements: [], processingTimeMs: 0 };
     }
 
     try {
-      console.log('[DEBUG] Running PII detection on:', text);
       const detection = await this.runWithTimeout(
-        runInference(this.modelSession, text),
+        (signal) => this.analyze(text, signal, context.policy?.tenantId),
         this.options.timeoutMs
       );
-      console.log('[DEBUG] Detected entities:', JSON.stringify(detection.entities));
 
-      if (detection.entities.length === 0) {
-        console.log('[DEBUG] No entities found');
+      const candidates = context.preserve
+        ? excludePreserved(text, detection.entities, context.preserve)
+        : detection.entities;
+
+      const entities = this.applyPolicy(candidates, context);
+      const blockedTypes = this.blockedTypes(entities, context);
+      const shadow = context.policy?.mode === 'shadow';
+
+      if (blockedTypes.length > 0) {
+        const blocked = candidates.filter((e) => blockedTypes.includes(e.type));
+        this.recordAudit(context, 'blocked', blocked, detection.processingTimeMs);
+        if (!shadow) {
+          throw new PolicyViolationError(blockedTypes);
+        }
+      }
+
+      if (shadow) {
+        // Entities are still returned so callers score session risk on them
+        context.findings?.record(entities, blockedTypes);
+        if (blockedTypes.length === 0) {
+          const outcome = entities.length > 0 ? 'redacted' : 'clean';
+          this.recordAudit(context, outcome, entities, detection.processingTimeMs);
+        }
+        return { text, entities, replacements: [], processingTimeMs: detection.processingTimeMs };
+      }
+
+      if (entities.length === 0) {
+        this.recordAudit(context, 'clean', [], detection.processingTimeMs);
         return {
           text,
           entities: [],
+          replacements: [],
           processingTimeMs: detection.processingTimeMs,
         };
       }
 
-      const redactedText = this.applyRedactions(text, detection.entities);
+      const { text: redactedText, replacements } = this.applyRedactions(
+        text,
+        entities,
+        context,
+        this.saltFor(context)
+      );
+      this.recordAudit(context, 'redacted', entities, detection.processingTimeMs);
+      for (const entity of entities) {
+        entitiesRedacted.inc({ type: entity.type, direction: context.direction ?? 'prompt' });
+      }
 
       return {
         text: redactedText,
-        entities: detection.entities,
+        entities,
+        replacements,
         processingTimeMs: detection.processingTimeMs,
       };
     } catch (error) {
-      if (error instanceof InferenceTimeoutError) {
-        if (this.options.failStrategy === 'closed') {
-          throw error;
-        } else {
-          console.warn(`[WARN] Inference timeout - passing through unredacted (fail-open mode)`);
-          return { text, entities: [], processingTimeMs: this.options.timeoutMs };
-        }
+      if (error instanceof InferenceTimeoutError && this.passThroughTimeout(context)) {
+        this.recordAudit(context, 'fail_open', [], this.options.timeoutMs);
+        return { text, entities: [], replacements: [], processingTimeMs: this.options.timeoutMs };
       }
       throw error;
     }
   }
 
-  private async runWithTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  /**
+   * Counts an inference timeout and decides whether the request goes on
+   * without detection: under a fail-open strategy, and always in shadow mode.
+   */
+  private passThroughTimeout(context: RedactionContext): boolean {
+    const failStrategy = context.policy?.failStrategy ?? this.options.failStrategy;
+    inferenceTimeouts.inc({ fail_strategy: failStrategy });
+    if (failStrategy === 'closed' && context.policy?.mode !== 'shadow') return false;
+
+    const reason = failStrategy === 'open' ? 'fail-open mode' : 'shadow mode';
+    console.warn(`[WARN] Inference timeout - passing through undetected (${reason})`);
+    return true;
+  }
+
+  /**
+   * The deadline covers time spent queued for an inference worker as well as
+   * execution; on expiry the task's signal aborts so queued work is dropped.
+   */
+  private async runWithTimeout<T>(task: (signal: AbortSignal) => Promise<T>, timeoutMs: number): Promise<T> {
     let timeoutId: NodeJS.Timeout;
+    const controller = new AbortController();
 
     const timeoutPromise = new Promise<never>((_, reject) => {
       timeoutId = setTimeout(() => {
-        reject(new InferenceTimeoutError(timeoutMs));
+        const error = new InferenceTimeoutError(timeoutMs);
+        controller.abort(error);
+        reject(error);
       }, timeoutMs);
     });
 
     try {
-      const result = await Promise.race([promise, timeoutPromise]);
+      const result = await Promise.race([task(controller.signal), timeoutPromise]);
       clearTimeout(timeoutId!);
       return result;
     } catch (error) {
@@ -100,31 +232,183 @@ export class RedactionService {
     }
   }
 
-  async detect(text: string): Promise<DetectionResult> {
+  /**
+   * Detection with the policy's confidence thresholds and allowed types
+   * applied. Nothing is replaced, blocked or audited; timeouts and shadow
+   * findings are handled as in `redact`.
+   */
+  async inspect(text: string, context: RedactionContext = {}): Promise<DetectionResult> {
     if (!text || text.trim().length === 0) {
       return { entities: [], processingTimeMs: 0 };
     }
 
-    return runInference(this.modelSession, text);
+    let detection: DetectionResult;
+    try {
+      detection = await this.runWithTimeout(
+        (signal) => this.analyze(text, signal, context.policy?.tenantId),
+        this.options.timeoutMs
+      );
+    } catch (error) {
+      if (error instanceof InferenceTimeoutError && this.passThroughTimeout(context)) {
+        return { entities: [], processingTimeMs: this.options.timeoutMs };
+      }
+      throw error;
+    }
+
+    const entities = this.applyPolicy(detection.entities, context);
+    if (context.policy?.mode === 'shadow') {
+      context.findings?.record(entities, this.blockedTypes(entities, context));
+    }
+    return { entities, processingTimeMs: detection.processingTimeMs };
+  }
+
+  async detect(text: string, tenantId?: string): Promise<DetectionResult> {
+    if (!text || text.trim().length === 0) {
+      return { entities: [], processingTimeMs: 0 };
+    }
+
+    return this.analyze(text, undefined, tenantId);
+  }
+
+  /**
+   * Runs every recognizer concurrently and resolves overlapping spans, then
+   * applies the tenant's term dictionary.
+   */
+  private async analyze(text: string, signal?: AbortSignal, tenantId?: string): Promise<DetectionResult> {
+    const startTime = Date.now();
+
+    const [results, dictionary] = await Promise.all([
+      Promise.all(this.recognizers.map((r) => r.analyze(text, signal))),
+      this.dictionaryService?.forTenant(tenantId ?? DEFAULT_TENANT_ID) ?? null,
+    ]);
+    const priorities = new Map(this.recognizers.map((r) => [r.name, r.priority]));
+    const merged = mergeEntities(results.flat(), priorities);
+
+    return {
+      entities: dictionary ? dictionary.apply(text, merged) : merged,
+      processingTimeMs: Date.now() - startTime,
+    };
+  }
+
+  /** Drops low-confidence and allowed entities. */
+  private applyPolicy(entities: PiiEntity[], context: RedactionContext): PiiEntity[] {
+    const { policy } = context;
+    if (!policy) return entities;
+
+    return entities.filter(
+      (e) => e.confidence >= minConfidenceFor(policy, e.type) && resolveAction(policy, e.type) !== 'allow'
+    );
+  }
+
+  /** Types whose presence rejects a prompt; responses are never blocked. */
+  private blockedTypes(entities: PiiEntity[], context: RedactionContext): PiiEntityType[] {
+    const { policy } = context;
+    if (!policy || context.direction === 'response') return [];
+
+    return [...new Set(
+      entities.filter((e) => resolveAction(policy, e.type) === 'block').map((e) => e.type)
+    )];
   }
 
-  private applyRedactions(text: string, entities: PiiEntity[]): string {
+  /** Active-version salt for the tenant or session the call belongs to. */
+  private saltFor(context: RedactionContext): DerivedSalt {
+    const { keyring } = this.options;
+    return keyring.derive(
+      keyring.scopeId({ tenantId: context.policy?.tenantId, sessionId: context.audit?.sessionId })
+    );
+  }
+
+  private getReplacement(entity: PiiEntity, action: RedactionAction, salt: DerivedSalt): string {
+    switch (action) {
+      case 'mask':
+        return getMaskedRedaction(entity.text);
+      case 'redact':
+      case 'block':
+        return getSimpleRedaction(entity.type);
+      default:
+        return this.options.useDeterministicReplacement
+          ? getDeterministicReplacement(entity.text, entity.type, salt.salt)
+          : getSimpleRedaction(entity.type);
+    }
+  }
+
+  private applyRedactions(
+    text: string,
+    entities: PiiEntity[],
+    context: RedactionContext,
+    salt: DerivedSalt
+  ): { text: string; replacements: ReplacementRecord[] } {
     const sortedEntities = [...entities].sort((a, b) => b.start - a.start);
+    const replacements: ReplacementRecord[] = [];
 
     let result = text;
 
     for (const entity of sortedEntities) {
-      const replacement = this.options.useDeterministicReplacement
-        ? getDeterministicReplacement(entity.text, entity.type, this.options.salt)
-        : getSimpleRedaction(entity.type);
+      const action = actionFor(entity, context);
+      const replacement = this.getReplacement(entity, action, salt);
 
       result = result.slice(0, entity.start) + replacement + result.slice(entity.end);
+      replacements.push({ original: entity.text, replacement, type: entity.type });
     }
 
-    return result;
+    return { text: result, replacements: replacements.reverse() };
+  }
+
+  private recordAudit(
+    context: RedactionContext,
+    outcome: AuditOutcome,
+    entities: PiiEntity[],
+    processingTimeMs: number
+  ): void {
+    if (!this.auditService || !context.audit) return;
+
+    this.auditService.record({
+      context: context.audit,
+      direction: context.direction ?? 'prompt',
+      outcome,
+      tenantId: context.policy?.tenantId,
+      keyVersion: this.options.keyring.activeVersion,
+      mode: context.policy?.mode,
+      entities: entities.map((entity) => ({ entity, action: actionFor(entity, context) })),
+      processingTimeMs,
+    });
   }
 
   updateOptions(options: Partial<RedactionOptions>): void {
     this.options = { ...this.options, ...options };
   }
 }
+
+function resolveAction(policy: RedactionPolicy, type: PiiEntityType): RedactionAction {
+  return policy.actions[type] ?? policy.defaultAction;
+}
+
+function minConfidenceFor(policy: RedactionPolicy, type: PiiEntityType): number {
+  return policy.minConfidenceByType[type] ?? policy.minConfidence;
+}
+
+function actionFor(entity: PiiEntity, context: RedactionContext): RedactionAction {
+  return context.policy ? resolveAction(context.policy, entity.type) : 'pseudonymize';
+}
+
+/** Drops entities that overlap any occurrence of a preserved value. */
+function excludePreserved(
+  text: string,
+  entities: PiiEntity[],
+  preserve: ReadonlySet<string>
+): PiiEntity[] {
+  const ranges: Array<[number, number]> = [];
+  for (const value of preserve) {
+    if (!value) continue;
+    let from = 0;
+    while (from < text.length) {
+      const start = text.indexOf(value, from);
+      if (start === -1) break;
+      ranges.push([start, start + value.length]);
+      from = start + value.length;
+    }
+  }
+
+  if (ranges.length === 0) return entities;
+  return entities.filter((e) => !ranges.some(([s, end]) => e.start < end && e.end > s));
+}
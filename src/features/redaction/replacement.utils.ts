@@ -1,10 +1,22 @@
 import { faker } from '@faker-js/faker';
 import { createHmac } from 'node:crypto';
 import type { PiiEntityType } from '../../shared/types/pii.types.js';
+import {
+  fakeBirthdate,
+  fakeCardNumber,
+  fakeDate,
+  fakeIban,
+  fakePhoneNumber,
+  fakeSsn,
+  matchCase,
+  randomizeShape,
+} from './format-preserving.js';
 
 /**
  * Generates consistent pseudonyms using HMAC-seeded PRNG.
- * Ensures referential integrity within a session scope.
+ * Ensures referential integrity within a session scope. Structured values keep
+ * the original's format (separators, length, case, country prefix) and stay
+ * valid where a checksum or range rule applies.
  */
 export function getDeterministicReplacement(
   originalText: string,
@@ -18,63 +30,66 @@ export function getDeterministicReplacement(
 
   switch (type) {
     case 'PERSON':
-      return faker.person.fullName();
+      return matchCase(originalText, fakePersonName(originalText));
 
     case 'EMAIL':
-      return faker.internet.email();
+      return matchCase(originalText, faker.internet.email());
 
     case 'PHONE':
-      return faker.phone.number();
+      return fakePhoneNumber(originalText);
 
     case 'ADDRESS':
-      return faker.location.streetAddress();
+      return matchCase(originalText, faker.location.streetAddress());
 
     case 'SSN':
-      return `${faker.string.numeric(3)}-${faker.string.numeric(2)}-${faker.string.numeric(4)}`;
+      return fakeSsn(originalText);
 
     case 'CREDIT_CARD':
-      return `${faker.string.numeric(4)}-${faker.string.numeric(4)}-${faker.string.numeric(4)}-${faker.string.numeric(4)}`;
+      return fakeCardNumber(originalText);
 
     case 'BANK_ACCOUNT':
-      return faker.finance.accountNumber();
+      return fakeIban(originalText) ?? randomizeShape(originalText);
 
     case 'DATE_OF_BIRTH':
-      return faker.date
-        .birthdate({ min: 18, max: 80, mode: 'age' })
-        .toLocaleDateString('en-US');
-
-    case 'PASSPORT':
-      return `${faker.string.alpha({ length: 2, casing: 'upper' })}${faker.string.numeric(7)}`;
-
-    case 'DRIVER_LICENSE':
-      return `${faker.string.alpha({ length: 1, casing: 'upper' })}${faker.string.numeric(7)}`;
+      return fakeDate(originalText) ?? fakeBirthdate().toLocaleDateString('en-US', { timeZone: 'UTC' });
 
     case 'IP_ADDRESS':
-      return faker.internet.ipv4();
+      return originalText.includes(':') ? faker.internet.ipv6() : faker.internet.ipv4();
 
     case 'URL':
       return faker.internet.url();
 
     case 'USERNAME':
-      return `@${faker.internet.username()}`;
+      return `${originalText.startsWith('@') ? '@' : ''}${faker.internet.username()}`;
 
     case 'PASSWORD':
       return '[REDACTED_PASSWORD]';
 
+    case 'PASSPORT':
+    case 'DRIVER_LICENSE':
     case 'MEDICAL_ID':
-      return `MED${faker.string.numeric(8)}`;
-
     case 'NATIONAL_ID':
-      return faker.string.numeric(10);
-
     case 'TAX_ID':
-      return `${faker.string.numeric(2)}-${faker.string.numeric(7)}`;
+      return randomizeShape(originalText);
 
     default:
       return '[REDACTED]';
   }
 }
 
+/** As many name parts as the original: first, first + last, or first + middle + last. */
+function fakePersonName(originalText: string): string {
+  const parts = originalText.trim().split(/\s+/).length;
+  if (parts === 1) return faker.person.firstName();
+  if (parts === 2) return `${faker.person.firstName()} ${faker.person.lastName()}`;
+  return `${faker.person.firstName()} ${faker.person.middleName()} ${faker.person.lastName()}`;
+}
+
 export function getSimpleRedaction(type: PiiEntityType): string {
   return `[${type}]`;
 }
+
+/** Hides every letter and digit while keeping separators, e.g. "4111-1111" -> "****-****". */
+export function getMaskedRedaction(originalText: string): string {
+  return originalText.replace(/[\p{L}\p{N}]/gu, '*');
+}
@@ -0,0 +1,86 @@
+import { hkdfSync } from 'node:crypto';
+
+/** What a pseudonym salt is unique to; equal values only map to equal pseudonyms within one scope. */
+export type SaltScope = 'global' | 'tenant' | 'session';
+
+export interface MasterKey {
+  version: string;
+  key: string;
+}
+
+export interface SaltKeyringConfig {
+  /** Master keys by version; the active one is used for all new pseudonyms. */
+  keys: MasterKey[];
+  /** Defaults to the first key. */
+  activeVersion?: string;
+  /** Inactive versions stay accepted (e.g. for vault lookups) until this time. */
+  graceUntil?: Date;
+  scope: SaltScope;
+}
+
+export interface DerivedSalt {
+  version: string;
+  salt: string;
+}
+
+const SALT_BYTES = 32;
+
+/**
+ * Versioned master keys from which per-scope pseudonym salts are derived
+ * with HKDF-SHA256. Rotating means adding a new active version; older
+ * versions remain accepted until the grace period ends.
+ */
+export class SaltKeyring {
+  readonly scope: SaltScope;
+  readonly activeVersion: string;
+  private keys: Map<string, string>;
+  private graceUntil: number | null;
+
+  constructor(config: SaltKeyringConfig) {
+    if (config.keys.length === 0) {
+      throw new Error('SaltKeyring requires at least one master key');
+    }
+
+    this.keys = new Map(config.keys.map(({ version, key }) => [version, key]));
+    this.activeVersion = config.activeVersion ?? config.keys[0]!.version;
+    if (!this.keys.has(this.activeVersion)) {
+      throw new Error(`Active salt key version "${this.activeVersion}" is not configured`);
+    }
+    this.graceUntil = config.graceUntil?.getTime() ?? null;
+    this.scope = config.scope;
+  }
+
+  /** The active version first, then older versions still inside the grace period. */
+  acceptedVersions(now = Date.now()): string[] {
+    const inGrace = this.graceUntil !== null && now < this.graceUntil;
+    const previous = inGrace ? [...this.keys.keys()].filter((v) => v !== this.activeVersion) : [];
+    return [this.activeVersion, ...previous];
+  }
+
+  /** Identifies the salt scope for a request under the configured scope mode. */
+  scopeId(owner: { tenantId?: string; sessionId?: string }): string {
+    if (this.scope === 'session' && owner.sessionId) return `session:${owner.sessionId}`;
+    if (this.scope !== 'global') return `tenant:${owner.tenantId ?? 'default'}`;
+    return 'global';
+  }
+
+  derive(scopeId: string, version = this.activeVersion): DerivedSalt {
+    return { version, salt: this.expand(version, `pseudonym-salt:${scopeId}`) };
+  }
+
+  /**
+   * A key for another purpose (e.g. `audit`), separate from every pseudonym
+   * salt. It follows the active version, so it changes on rotation.
+   */
+  deriveKey(purpose: string): string {
+    return this.expand(this.activeVersion, `key:${purpose}`);
+  }
+
+  private expand(version: string, info: string): string {
+    const key = this.keys.get(version);
+    if (key === undefined) {
+      throw new Error(`Unknown salt key version "${version}"`);
+    }
+    return Buffer.from(hkdfSync('sha256', key, Buffer.alloc(0), info, SALT_BYTES)).toString('hex');
+  }
+}
@@ -0,0 +1,4 @@
+export { UpstreamRouter, UpstreamUnavailableError } from './upstream.router.js';
+export type { Upstream } from './upstream.router.js';
+export { loadRoutingFile, RoutingValidationError } from './routing.loader.js';
+export type { RoutingFile, UpstreamDefinition } from './routing.schema.js';
@@ -0,0 +1,38 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import { routingFileSchema, type RoutingFile } from './routing.schema.js';
+
+export class RoutingValidationError extends Error {
+  readonly issues: string[];
+
+  constructor(filePath: string, issues: string[]) {
+    super(`Invalid routing file ${filePath}:\n${issues.map((issue) => `   - ${issue}`).join('\n')}`);
+    this.name = 'RoutingValidationError';
+    this.issues = issues;
+  }
+}
+
+/** Reads and validates a JSON or YAML upstream routing table. */
+export async function loadRoutingFile(filePath: string): Promise<RoutingFile> {
+  const raw = await readFile(filePath, 'utf-8');
+  const ext = path.extname(filePath).toLowerCase();
+
+  let document: unknown;
+  try {
+    document = ext === '.yaml' || ext === '.yml' ? parseYaml(raw) : JSON.parse(raw);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new RoutingValidationError(filePath, [`parse error: ${reason}`]);
+  }
+
+  const result = routingFileSchema.safeParse(document ?? {});
+  if (!result.success) {
+    throw new RoutingValidationError(
+      filePath,
+      result.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    );
+  }
+
+  return result.data;
+}
@@ -0,0 +1,59 @@
+import { z } from 'zod';
+
+const upstreamSchema = z
+  .object({
+    baseUrl: z.string().url(),
+    apiKey: z.string().min(1).optional(),
+    /** Name of the environment variable holding the API key, to keep secrets out of the file. */
+    apiKeyEnv: z.string().min(1).optional(),
+    headers: z.record(z.string(), z.string()).default({}),
+    /** Time allowed until the upstream answers with response headers. */
+    timeoutMs: z.number().int().positive().optional(),
+    /** Send the caller's own key here in CREDENTIAL_MODE=forward; other upstreams are skipped. */
+    forwardClientKey: z.boolean().default(false),
+  })
+  .strict()
+  .refine((upstream) => !(upstream.apiKey && upstream.apiKeyEnv), {
+    message: 'Set either apiKey or apiKeyEnv, not both',
+  });
+
+const routeSchema = z
+  .object({
+    /** Model name glob(s); `*` matches any run of characters, `?` a single one. */
+    match: z.union([z.string().min(1), z.array(z.string().min(1)).min(1)]),
+    /** Tried in order; later entries are failovers. */
+    upstreams: z.array(z.string().min(1)).min(1),
+  })
+  .strict();
+
+export const routingFileSchema = z
+  .object({
+    upstreams: z.record(z.string().min(1), upstreamSchema),
+    routes: z.array(routeSchema).default([]),
+  })
+  .strict()
+  .superRefine((file, ctx) => {
+    file.routes.forEach((route, i) => {
+      route.upstreams.forEach((name, j) => {
+        if (!file.upstreams[name]) {
+          ctx.addIssue({
+            code: 'custom',
+            path: ['routes', i, 'upstreams', j],
+            message: `Unknown upstream "${name}"`,
+          });
+        }
+      });
+    });
+    for (const [name, upstream] of Object.entries(file.upstreams)) {
+      if (upstream.apiKeyEnv && !process.env[upstream.apiKeyEnv]) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['upstreams', name, 'apiKeyEnv'],
+          message: `Environment variable ${upstream.apiKeyEnv} is not set`,
+        });
+      }
+    }
+  });
+
+export type RoutingFile = z.infer<typeof routingFileSchema>;
+export type UpstreamDefinition = z.infer<typeof upstreamSchema>;
@@ -0,0 +1,195 @@
+import type { RoutingFile } from './routing.schema.js';
+import { upstreamKeyFor, type ClientCredentials } from '../credentials/index.js';
+
+export interface Upstream {
+  name: string;
+  baseUrl: string;
+  apiKey?: string;
+  headers: Record<string, string>;
+  timeoutMs: number;
+  /** Whether the caller's own key may be sent here in forward (BYOK) mode. */
+  forwardClientKey: boolean;
+}
+
+interface Route {
+  patterns: RegExp[];
+  upstreams: Upstream[];
+}
+
+/** Raised when every upstream for a model failed to answer. */
+export class UpstreamUnavailableError extends Error {
+  readonly statusCode = 502;
+
+  constructor(model: string | undefined, attempts: string[]) {
+    const tried = attempts.length > 0 ? `tried ${attempts.join(', ')}` : 'none accepts forwarded client keys';
+    super(`No upstream available for model "${model ?? '(none)'}" (${tried})`);
+    this.name = 'UpstreamUnavailableError';
+  }
+}
+
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split('')
+    .map((char) => (char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+/** A caller's own key is only sent to upstreams that opted in to receiving it. */
+function accepts(upstream: Upstream, credentials: ClientCredentials | null): boolean {
+  return !credentials?.forwarded || upstream.forwardClientKey;
+}
+
+/**
+ * Maps `model` names to an ordered list of OpenAI-compatible upstreams.
+ * Requests fail over to the next upstream on connection errors, timeouts and
+ * 5xx responses; the last upstream's response is returned whatever its status.
+ * Models matching no route go to the fallback upstream.
+ */
+export class UpstreamRouter {
+  private routes: Route[] = [];
+  private fallback: Upstream;
+  private upstreams: Upstream[];
+
+  constructor(file: RoutingFile | null, fallback: Upstream) {
+    this.fallback = fallback;
+
+    const byName = new Map<string, Upstream>();
+    for (const [name, definition] of Object.entries(file?.upstreams ?? {})) {
+      byName.set(name, {
+        name,
+        baseUrl: definition.baseUrl.replace(/\/$/, ''),
+        apiKey: definition.apiKey ?? (definition.apiKeyEnv ? process.env[definition.apiKeyEnv] : undefined),
+        headers: definition.headers,
+        timeoutMs: definition.timeoutMs ?? fallback.timeoutMs,
+        forwardClientKey: definition.forwardClientKey,
+      });
+    }
+
+    for (const route of file?.routes ?? []) {
+      const patterns = Array.isArray(route.match) ? route.match : [route.match];
+      this.routes.push({
+        patterns: patterns.map(globToRegExp),
+        upstreams: route.upstreams.map((name) => byName.get(name)!),
+      });
+    }
+
+    this.upstreams = [...byName.values(), fallback];
+  }
+
+  get routeCount(): number {
+    return this.routes.length;
+  }
+
+  /** Upstreams to try for a model, in failover order. */
+  resolve(model: string | undefined): Upstream[] {
+    const route = model !== undefined
+      ? this.routes.find((r) => r.patterns.some((pattern) => pattern.test(model)))
+      : undefined;
+    return route?.upstreams ?? [this.fallback];
+  }
+
+  /**
+   * POSTs a JSON body to `path` on the model's upstreams until one answers
+   * without a 5xx. `credentials` replace the configured keys (BYOK); a
+   * forwarded caller key skips upstreams that have not opted in to it.
+   */
+  async post(
+    model: string | undefined,
+    path: string,
+    body: string,
+    credentials: ClientCredentials | null = null
+  ): Promise<Response> {
+    const candidates = this.resolve(model).filter((upstream) => accepts(upstream, credentials));
+    const attempts: string[] = [];
+
+    for (const [index, upstream] of candidates.entries()) {
+      const isLast = index === candidates.length - 1;
+      attempts.push(upstream.name);
+
+      let response: Response;
+      try {
+        response = await this.request(upstream, path, { method: 'POST', body }, credentials);
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        console.warn(`[WARN] Upstream ${upstream.name} failed: ${reason}`);
+        continue;
+      }
+
+      if (response.status >= 500 && !isLast) {
+        console.warn(`[WARN] Upstream ${upstream.name} returned ${response.status}, failing over`);
+        await response.body?.cancel();
+        continue;
+      }
+      return response;
+    }
+
+    throw new UpstreamUnavailableError(model, attempts);
+  }
+
+  /**
+   * Merges `/models` from every configured upstream; the first upstream
+   * listing a model ID wins. Unreachable upstreams, and upstreams that do
+   * not accept a forwarded caller key, are skipped.
+   */
+  async listModels(
+    credentials: ClientCredentials | null = null
+  ): Promise<{ object: 'list'; data: Array<Record<string, unknown>> }> {
+    const upstreams = this.upstreams.filter((upstream) => accepts(upstream, credentials));
+    const listings = await Promise.all(
+      upstreams.map(async (upstream) => {
+        try {
+          const response = await this.request(upstream, '/models', { method: 'GET' }, credentials);
+          if (!response.ok) {
+            console.warn(`[WARN] Upstream ${upstream.name} model listing returned ${response.status}`);
+            await response.body?.cancel();
+            return [];
+          }
+          const payload = (await response.json()) as { data?: Array<Record<string, unknown>> };
+          return Array.isArray(payload.data) ? payload.data : [];
+        } catch (error) {
+          const reason = error instanceof Error ? error.message : String(error);
+          console.warn(`[WARN] Upstream ${upstream.name} model listing failed: ${reason}`);
+          return [];
+        }
+      })
+    );
+
+    const models = new Map<string, Record<string, unknown>>();
+    for (const model of listings.flat()) {
+      if (typeof model.id === 'string' && !models.has(model.id)) {
+        models.set(model.id, model);
+      }
+    }
+    return { object: 'list', data: [...models.values()] };
+  }
+
+  /** The timeout covers the wait for response headers; streamed bodies are not cut off. */
+  private async request(
+    upstream: Upstream,
+    path: string,
+    init: { method: string; body?: string },
+    credentials: ClientCredentials | null
+  ): Promise<Response> {
+    const apiKey = upstreamKeyFor(credentials, upstream.name, upstream.apiKey);
+    const controller = new AbortController();
+    const timer = setTimeout(
+      () => controller.abort(new Error(`timed out after ${upstream.timeoutMs}ms`)),
+      upstream.timeoutMs
+    );
+
+    try {
+      return await fetch(`${upstream.baseUrl}${path}`, {
+        ...init,
+        headers: {
+          ...(init.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+          ...upstream.headers,
+        },
+        signal: controller.signal,
+      });
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
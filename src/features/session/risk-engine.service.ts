@@ -1,31 +1,73 @@
-import { SessionStore } from './session.store.js';
-import { PII_RISK_POINTS, type PiiEntity } from '../../shared/types/pii.types.js';
+import { SessionStore, type ManualBan } from './session.store.js';
+import { PII_RISK_POINTS, type PiiEntity, type PiiEntityType } from '../../shared/types/pii.types.js';
+import { sessionBans } from '../../infrastructure/metrics/metrics.js';
+import { fingerprintCredential } from '../credentials/index.js';
 
 export interface RiskConfig {
+  /** Score at which requests are blocked. */
   threshold: number;
+  /** Score at which responses carry a warning header. */
+  warnThreshold: number;
+  /** Score at which the session is limited to one request per `throttleIntervalMs`. */
+  throttleThreshold: number;
+  throttleIntervalMs: number;
+  /** Default manual ban duration. */
   windowMs: number;
+  /** Overrides for `PII_RISK_POINTS`. */
+  weights?: Partial<Record<PiiEntityType, number>>;
 }
 
+export type RiskLevel = 'ok' | 'warning' | 'throttled' | 'blocked';
+
 export interface RiskAssessment {
   score: number;
+  level: RiskLevel;
   isBanned: boolean;
   pointsAdded: number;
 }
 
+/** Outcome of checking a session before its request is proxied. */
+export interface AdmissionDecision {
+  level: RiskLevel;
+  score: number;
+  /** False when the request must be rejected (throttled or blocked). */
+  allowed: boolean;
+  /** Seconds until a rejected request may be retried. */
+  retryAfterSeconds?: number;
+}
+
+export interface SessionState {
+  sessionId: string;
+  score: number;
+  threshold: number;
+  level: RiskLevel;
+  isBanned: boolean;
+  /** Seconds until an idle score is dropped, null when no score is held. */
+  ttlSeconds: number | null;
+  manualBan: (ManualBan & { ttlSeconds: number | null }) | null;
+}
+
+/** Whether a session ID was derived from a client credential rather than the client IP. */
+export function isCredentialSession(sessionId: string): boolean {
+  return sessionId.startsWith('key:') || sessionId.startsWith('auth:');
+}
+
 /**
  * Manages session risk scoring and access control policies.
  */
 export class SessionService {
   private sessionStore: SessionStore;
   private config: RiskConfig;
+  private weights: Record<PiiEntityType, number>;
 
   constructor(sessionStore: SessionStore, config: RiskConfig) {
     this.sessionStore = sessionStore;
     this.config = config;
+    this.weights = { ...PII_RISK_POINTS, ...config.weights };
   }
 
   /**
-   * Calculates risk impact of detected entities and updates session state.
+   * Adds the weighted risk of detected entities to the session's decayed score.
    * Triggers ban if threshold exceeded.
    */
   async assessRisk(sessionId: string, entities: PiiEntity[]): Promise<RiskAssessment> {
@@ -33,6 +75,7 @@ export class SessionService {
       const currentScore = await this.sessionStore.getRiskScore(sessionId);
       return {
         score: currentScore,
+        level: this.levelFor(currentScore),
         isBanned: currentScore >= this.config.threshold,
         pointsAdded: 0,
       };
@@ -40,27 +83,70 @@ export class SessionService {
 
     let pointsToAdd = 0;
     for (const entity of entities) {
-      const points = PII_RISK_POINTS[entity.type] || 5;
-      pointsToAdd += points;
+      pointsToAdd += this.weights[entity.type] ?? 5;
     }
 
-    const newScore = await this.sessionStore.incrementRisk(
-      sessionId,
-      pointsToAdd,
-      this.config.windowMs
-    );
+    const newScore = await this.sessionStore.incrementRisk(sessionId, pointsToAdd);
 
     const isBanned = newScore >= this.config.threshold;
+    if (isBanned && newScore - pointsToAdd < this.config.threshold) {
+      sessionBans.inc();
+    }
 
     return {
       score: newScore,
+      level: this.levelFor(newScore),
       isBanned,
       pointsAdded: pointsToAdd,
     };
   }
 
+  /**
+   * Graduated enforcement: warning and ok sessions pass, throttled sessions
+   * pass at most once per interval, blocked sessions wait for their score to
+   * decay below the threshold (or for a manual ban to expire).
+   */
+  async checkAdmission(sessionId: string): Promise<AdmissionDecision> {
+    const manualBan = await this.sessionStore.getManualBan(sessionId);
+    const score = await this.sessionStore.getRiskScore(sessionId);
+
+    if (manualBan) {
+      return {
+        level: 'blocked',
+        score,
+        allowed: false,
+        retryAfterSeconds: manualBan.ttlSeconds ?? undefined,
+      };
+    }
+
+    const level = this.levelFor(score);
+    if (level === 'blocked') {
+      return {
+        level,
+        score,
+        allowed: false,
+        retryAfterSeconds: this.secondsUntilBelow(score, this.config.threshold),
+      };
+    }
+
+    if (level === 'throttled') {
+      const retryAfterSeconds = await this.sessionStore.acquireThrottleSlot(
+        sessionId,
+        this.config.throttleIntervalMs
+      );
+      if (retryAfterSeconds !== null) {
+        return { level, score, allowed: false, retryAfterSeconds };
+      }
+    }
+
+    return { level, score, allowed: true };
+  }
+
   async isBanned(sessionId: string): Promise<boolean> {
-    return this.sessionStore.isBanned(sessionId, this.config.threshold);
+    if (await this.sessionStore.getManualBan(sessionId)) {
+      return true;
+    }
+    return (await this.sessionStore.getRiskScore(sessionId)) >= this.config.threshold;
   }
 
   async getRiskScore(sessionId: string): Promise<number> {
@@ -71,18 +157,73 @@ export class SessionService {
     await this.sessionStore.clearRisk(sessionId);
   }
 
+  async getSessionState(sessionId: string): Promise<SessionState> {
+    const [score, ttlSeconds, manualBan] = await Promise.all([
+      this.sessionStore.getRiskScore(sessionId),
+      this.sessionStore.getRiskTtl(sessionId),
+      this.sessionStore.getManualBan(sessionId),
+    ]);
+
+    const level = manualBan ? 'blocked' : this.levelFor(score);
+    return {
+      sessionId,
+      score: Math.round(score * 100) / 100,
+      threshold: this.config.threshold,
+      level,
+      isBanned: level === 'blocked',
+      ttlSeconds,
+      manualBan,
+    };
+  }
+
+  /** Bans independently of the score; defaults to one risk window. */
+  async ban(sessionId: string, options: { ttlSeconds?: number; reason?: string } = {}): Promise<void> {
+    const ttlSeconds = options.ttlSeconds ?? Math.ceil(this.config.windowMs / 1000);
+    await this.sessionStore.setManualBan(
+      sessionId,
+      { reason: options.reason, bannedAt: new Date().toISOString() },
+      ttlSeconds
+    );
+  }
+
+  /** Clears the risk score and any manual ban, lifting the session's block. */
+  async resetSession(sessionId: string): Promise<void> {
+    await this.sessionStore.clearRisk(sessionId);
+    await this.sessionStore.clearManualBan(sessionId);
+  }
+
+  async listRiskiestSessions(limit: number): Promise<SessionState[]> {
+    const top = await this.sessionStore.listTopRisk(limit);
+    return Promise.all(top.map(({ sessionId }) => this.getSessionState(sessionId)));
+  }
+
+  /** Credentials are only ever part of a session ID as a fingerprint. */
   extractSessionId(headers: Record<string, string | string[] | undefined>, ip: string): string {
     const apiKey = headers['x-api-key'];
-    if (apiKey) {
-      return typeof apiKey === 'string' ? apiKey : apiKey[0] ?? ip;
+    const apiKeyStr = typeof apiKey === 'string' ? apiKey : apiKey?.[0];
+    if (apiKeyStr) {
+      return `key:${fingerprintCredential(apiKeyStr)}`;
     }
 
     const auth = headers['authorization'];
-    if (auth) {
-      const authStr = typeof auth === 'string' ? auth : auth[0] ?? '';
-      return `auth:${Buffer.from(authStr).toString('base64').substring(0, 32)}`;
+    const authStr = typeof auth === 'string' ? auth : auth?.[0];
+    if (authStr) {
+      return `auth:${fingerprintCredential(authStr)}`;
     }
 
     return `ip:${ip}`;
   }
+
+  private levelFor(score: number): RiskLevel {
+    if (score >= this.config.threshold) return 'blocked';
+    if (score >= this.config.throttleThreshold) return 'throttled';
+    if (score >= this.config.warnThreshold) return 'warning';
+    return 'ok';
+  }
+
+  /** Time for an undisturbed score to decay below `target`. */
+  private secondsUntilBelow(score: number, target: number): number {
+    const halfLives = Math.log2(score / target);
+    return Math.max(1, Math.ceil((halfLives * this.sessionStore.halfLifeMs) / 1000));
+  }
 }
@@ -1,4 +1,16 @@
-import type { StoreClient } from '../../infrastructure/store/store-client.js';
+import { decayScore, type StoreClient } from '../../infrastructure/store/store-client.js';
+
+export interface RiskDecayConfig {
+  /** Time for a session's risk score to halve without new detections. */
+  halfLifeMs: number;
+  /** Scores are dropped entirely after this long without new detections. */
+  idleTtlMs: number;
+}
+
+export interface ManualBan {
+  reason?: string;
+  bannedAt: string;
+}
 
 /**
  * Abstraction layer for session and risk data persistence.
@@ -7,10 +19,32 @@ import type { StoreClient } from '../../infrastructure/store/store-client.js';
 export class SessionStore {
   private store: StoreClient;
   private readonly keyPrefix = 'session:';
-  private readonly riskPrefix = 'risk:';
+  // Decayed scores are hashes; the old `risk:` integer keys simply expire
+  private readonly riskPrefix = 'risk-decay:';
+  private readonly banPrefix = 'ban:';
+  private readonly throttlePrefix = 'throttle:';
+  /**
+   * Sorted set of session IDs for admin listing, ranked by `log2(score) +
+   * updatedAt / halfLife`. Every score decays at the same rate, so this
+   * ranking matches the current decayed scores without being rewritten.
+   */
+  private readonly riskIndexKey = 'risk-index';
+  /**
+   * Index entries ranked below this score refreshed one idle TTL ago have
+   * expired or hold under a point, so they are trimmed on every increment. An
+   * expired session falls below that rank within log2(score) half-lives.
+   */
+  private readonly riskIndexFloor = 1;
 
-  constructor(store: StoreClient) {
+  private decay: RiskDecayConfig;
+
+  constructor(store: StoreClient, decay: RiskDecayConfig) {
     this.store = store;
+    this.decay = decay;
+  }
+
+  get halfLifeMs(): number {
+    return this.decay.halfLifeMs;
   }
 
   async get(sessionId: string, field: string): Promise<string | null> {
@@ -21,45 +55,112 @@ export class SessionStore {
     return this.store.hincrby(`${this.keyPrefix}${sessionId}`, field, amount);
   }
 
-  /**
-   * Atomically increments risk score and sets TTL on first write.
-   * Handles multi-point increments via loop (due to Redis INCR limitations).
-   */
-  async incrementRisk(sessionId: string, points: number, windowMs: number): Promise<number> {
-    const key = `${this.riskPrefix}${sessionId}`;
-    const newScore = await this.store.incr(key);
+  /** Decays the current score to now and adds `points` in one atomic store operation. */
+  async incrementRisk(sessionId: string, points: number): Promise<number> {
+    const now = Date.now();
+    const score = await this.store.incrDecayed(`${this.riskPrefix}${sessionId}`, points, {
+      halfLifeMs: this.decay.halfLifeMs,
+      ttlMs: this.decay.idleTtlMs,
+      now,
+    });
 
-    if (newScore === 1) {
-      const windowSeconds = Math.ceil(windowMs / 1000);
-      await this.store.expire(key, windowSeconds);
+    if (score > 0) {
+      await this.store.zadd(this.riskIndexKey, Math.log2(score) + now / this.decay.halfLifeMs, sessionId);
     }
+    // Sessions that never return would otherwise stay indexed until an admin lists past them
+    const staleRank = Math.log2(this.riskIndexFloor) + (now - this.decay.idleTtlMs) / this.decay.halfLifeMs;
+    await this.store.zremrangebyscore(this.riskIndexKey, -Infinity, staleRank);
+    return score;
+  }
 
-    if (points > 1) {
-      for (let i = 1; i < points; i++) {
-        await this.store.incr(key);
-      }
-      return newScore + points - 1;
+  async getRiskScore(sessionId: string): Promise<number> {
+    const hash = await this.store.hgetall(`${this.riskPrefix}${sessionId}`);
+    if (!hash.score) return 0;
+
+    return decayScore(
+      { score: parseFloat(hash.score), updatedAt: parseInt(hash.updatedAt ?? '0', 10) },
+      this.decay.halfLifeMs
+    );
+  }
+
+  /** Seconds until an idle score is dropped, or null when no score is held. */
+  async getRiskTtl(sessionId: string): Promise<number | null> {
+    const ttl = await this.store.ttl(`${this.riskPrefix}${sessionId}`);
+    return ttl >= 0 ? ttl : null;
+  }
+
+  /**
+   * Admits one request per `intervalMs`. Returns null when admitted, otherwise
+   * the seconds until the next request will be.
+   */
+  async acquireThrottleSlot(sessionId: string, intervalMs: number): Promise<number | null> {
+    const key = `${this.throttlePrefix}${sessionId}`;
+    const count = await this.store.incr(key);
+    if (count === 1) {
+      await this.store.expire(key, Math.max(1, Math.ceil(intervalMs / 1000)));
+      return null;
     }
 
-    return newScore;
+    const ttl = await this.store.ttl(key);
+    return ttl > 0 ? ttl : 1;
   }
 
-  async getRiskScore(sessionId: string): Promise<number> {
-    const score = await this.store.get(`${this.riskPrefix}${sessionId}`);
-    return score ? parseInt(score, 10) : 0;
+  async setManualBan(sessionId: string, ban: ManualBan, ttlSeconds: number): Promise<void> {
+    await this.store.set(`${this.banPrefix}${sessionId}`, JSON.stringify(ban), ttlSeconds);
+  }
+
+  async getManualBan(sessionId: string): Promise<(ManualBan & { ttlSeconds: number | null }) | null> {
+    const key = `${this.banPrefix}${sessionId}`;
+    const raw = await this.store.get(key);
+    if (!raw) return null;
+
+    const ttl = await this.store.ttl(key);
+    return { ...(JSON.parse(raw) as ManualBan), ttlSeconds: ttl >= 0 ? ttl : null };
+  }
+
+  async clearManualBan(sessionId: string): Promise<void> {
+    await this.store.del(`${this.banPrefix}${sessionId}`);
   }
 
-  async isBanned(sessionId: string, threshold: number): Promise<boolean> {
-    const score = await this.getRiskScore(sessionId);
-    return score >= threshold;
+  /**
+   * Highest-scoring sessions with a live risk window. Index entries whose
+   * risk key has expired are dropped as they are encountered.
+   */
+  async listTopRisk(limit: number): Promise<Array<{ sessionId: string; score: number }>> {
+    const results: Array<{ sessionId: string; score: number }> = [];
+    const pageSize = Math.max(limit, 50);
+    let start = 0;
+
+    while (results.length < limit) {
+      const page = await this.store.zrevrangeWithScores(this.riskIndexKey, start, start + pageSize - 1);
+      if (page.length === 0) break;
+
+      let removed = 0;
+      for (const { member } of page) {
+        const score = await this.getRiskScore(member);
+        if (score === 0) {
+          await this.store.zrem(this.riskIndexKey, member);
+          removed++;
+          continue;
+        }
+        if (results.length < limit) {
+          results.push({ sessionId: member, score });
+        }
+      }
+      start += page.length - removed;
+    }
+
+    return results.sort((a, b) => b.score - a.score);
   }
 
   async clearRisk(sessionId: string): Promise<void> {
     await this.store.del(`${this.riskPrefix}${sessionId}`);
+    await this.store.zrem(this.riskIndexKey, sessionId);
   }
 
   async clearSession(sessionId: string): Promise<void> {
     await this.store.del(`${this.keyPrefix}${sessionId}`);
-    await this.store.del(`${this.riskPrefix}${sessionId}`);
+    await this.clearRisk(sessionId);
+    await this.clearManualBan(sessionId);
   }
 }
@@ -0,0 +1,3 @@
+export { PseudonymVault, VaultSessionError } from './vault.store.js';
+export type { VaultConfig } from './vault.store.js';
+export { Rehydrator } from './rehydrator.js';
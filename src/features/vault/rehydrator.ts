@@ -0,0 +1,52 @@
+/**
+ * Swaps pseudonyms back to their original values in upstream output.
+ * Only ever applied on the response path towards the client.
+ */
+export class Rehydrator {
+  private mapping: Map<string, string>;
+  private pattern: RegExp | null;
+  readonly pseudonyms: ReadonlySet<string>;
+
+  constructor(mapping: Map<string, string>) {
+    this.mapping = mapping;
+    this.pseudonyms = new Set(mapping.keys());
+
+    // Longest first so "Jane Doe" wins over a shorter overlapping pseudonym
+    const alternatives = [...mapping.keys()]
+      .filter((key) => key.length > 0)
+      .sort((a, b) => b.length - a.length)
+      .map(escapeRegExp);
+    this.pattern = alternatives.length > 0 ? new RegExp(alternatives.join('|'), 'g') : null;
+  }
+
+  get isEmpty(): boolean {
+    return this.pattern === null;
+  }
+
+  apply(text: string): string {
+    if (!this.pattern) return text;
+    return text.replace(this.pattern, (match) => this.mapping.get(match) ?? match);
+  }
+
+  /**
+   * Length of the longest suffix of `text` that is a proper prefix of a pseudonym.
+   * Streams hold this tail back so a pseudonym split across chunks is still matched.
+   */
+  pendingPrefixLength(text: string): number {
+    let longest = 0;
+    for (const pseudonym of this.pseudonyms) {
+      const max = Math.min(pseudonym.length - 1, text.length);
+      for (let len = max; len > longest; len--) {
+        if (text.endsWith(pseudonym.slice(0, len))) {
+          longest = len;
+          break;
+        }
+      }
+    }
+    return longest;
+  }
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
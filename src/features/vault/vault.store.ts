@@ -0,0 +1,92 @@
+import type { StoreClient } from '../../infrastructure/store/store-client.js';
+import type { ReplacementRecord, SaltKeyring } from '../redaction/index.js';
+import { isCredentialSession } from '../session/risk-engine.service.js';
+import { Rehydrator } from './rehydrator.js';
+
+export interface VaultConfig {
+  ttlSeconds: number;
+  /** Mappings are kept per salt key version; lookups span every accepted version. */
+  keyring: SaltKeyring;
+}
+
+/** Raised when rehydration is requested by a client without credentials. */
+export class VaultSessionError extends Error {
+  readonly statusCode = 400;
+
+  constructor() {
+    super('Re-hydration requires an API key (Authorization: Bearer <key> or x-api-key).');
+    this.name = 'VaultSessionError';
+  }
+}
+
+function assertCredentialSession(sessionId: string): void {
+  if (!isCredentialSession(sessionId)) throw new VaultSessionError();
+}
+
+/**
+ * Per-session pseudonym → original mapping used to re-hydrate responses.
+ * Entries expire with the session; each write refreshes the TTL. During a
+ * salt rotation grace period, pseudonyms issued under the previous key
+ * version still resolve. Only sessions derived from a credential are
+ * vaulted: IP-based session IDs are shared behind NAT and follow a
+ * client-supplied X-Forwarded-For.
+ */
+export class PseudonymVault {
+  private store: StoreClient;
+  private config: VaultConfig;
+  private readonly keyPrefix = 'vault:';
+
+  constructor(store: StoreClient, config: VaultConfig) {
+    this.store = store;
+    this.config = config;
+  }
+
+  async record(sessionId: string, replacements: ReplacementRecord[]): Promise<void> {
+    assertCredentialSession(sessionId);
+    const fields: Record<string, string> = {};
+    for (const { original, replacement } of replacements) {
+      // Labels like "[PASSWORD]" and masks like "****" cannot be mapped back to a single value
+      if (replacement === original || /^\[[A-Z_]+\]$/.test(replacement)) continue;
+      if (!/[\p{L}\p{N}]/u.test(replacement)) continue;
+      fields[replacement] = original;
+    }
+
+    if (Object.keys(fields).length === 0) return;
+
+    const key = this.key(sessionId, this.config.keyring.activeVersion);
+    await this.store.hset(key, fields);
+    await this.store.expire(key, this.config.ttlSeconds);
+  }
+
+  async load(sessionId: string): Promise<Map<string, string>> {
+    assertCredentialSession(sessionId);
+    const mapping = new Map<string, string>();
+    // Oldest first, so the active version wins when pseudonyms collide
+    for (const version of this.config.keyring.acceptedVersions().reverse()) {
+      const fields = await this.store.hgetall(this.key(sessionId, version));
+      for (const [pseudonym, original] of Object.entries(fields)) {
+        mapping.set(pseudonym, original);
+      }
+    }
+    return mapping;
+  }
+
+  /** Stores this request's replacements and returns a rehydrator over the whole session. */
+  async createRehydrator(
+    sessionId: string,
+    replacements: ReplacementRecord[]
+  ): Promise<Rehydrator> {
+    await this.record(sessionId, replacements);
+    return new Rehydrator(await this.load(sessionId));
+  }
+
+  async clear(sessionId: string): Promise<void> {
+    for (const version of this.config.keyring.acceptedVersions()) {
+      await this.store.del(this.key(sessionId, version));
+    }
+  }
+
+  private key(sessionId: string, version: string): string {
+    return `${this.keyPrefix}${version}:${sessionId}`;
+  }
+}
@@ -3,35 +3,141 @@ import { env } from './infrastructure/config/env.js';
 import { createStoreClient } from './infrastructure/store/store-client.js';
 import { createServer } from './infrastructure/http/server.js';
 import { loadModel } from './engine/model-loader.js';
-import { RedactionService } from './features/redaction/index.js';
+import { InferencePool } from './engine/inference-pool.js';
+import { RedactionService, SaltKeyring } from './features/redaction/index.js';
 import { SessionStore } from './features/session/session.store.js';
 import { SessionService } from './features/session/risk-engine.service.js';
 import { registerProxyRoutes } from './features/proxy/proxy.routes.js';
+import { PseudonymVault } from './features/vault/index.js';
+import { DictionaryService, DictionaryStore } from './features/dictionary/index.js';
+import { PolicyService, PolicyValidationError, loadPolicyFile } from './features/policy/index.js';
+import { AuditService, JsonlFileSink } from './features/audit/index.js';
+import { RoutingValidationError, UpstreamRouter, loadRoutingFile } from './features/routing/index.js';
+import { CredentialService, CredentialStore } from './features/credentials/index.js';
+import { ContentPartService } from './features/media/index.js';
+import { registerAdminRoutes } from './features/admin/index.js';
+import { registerPiiRoutes } from './features/pii/index.js';
 
 async function bootstrap(): Promise<void> {
   console.log('[INFO] Starting PII Redaction Middleware...\n');
 
   try {
     console.log('[INIT] Phase 1: Loading AI Engine\n');
-    const modelSession = await loadModel(env.MODEL_ID, {
+    const modelSettings = {
       quantized: env.MODEL_QUANTIZED,
-    });
+      backend: env.INFERENCE_BACKEND,
+      windowOverlap: env.MODEL_WINDOW_OVERLAP,
+    };
+    const inferenceEngine = env.INFERENCE_WORKERS > 0
+      ? await InferencePool.create(
+          { modelId: env.MODEL_ID, ...modelSettings },
+          {
+            size: env.INFERENCE_WORKERS,
+            maxQueueDepth: env.INFERENCE_QUEUE_MAX,
+            maxBatchSize: env.INFERENCE_BATCH_SIZE,
+            batchWindowMs: env.INFERENCE_BATCH_WINDOW_MS,
+          }
+        )
+      : await loadModel(env.MODEL_ID, modelSettings);
 
     console.log('\n[INIT] Phase 2: Connecting Infrastructure\n');
     const store = await createStoreClient();
 
     console.log('\n[INIT] Phase 3: Initializing Services\n');
-    const redactionService = new RedactionService(modelSession, {
+    const keyring = new SaltKeyring({
+      keys: env.SALT_KEYS ?? [{ version: '1', key: env.SALT }],
+      activeVersion: env.SALT_ACTIVE_VERSION,
+      graceUntil: env.SALT_ROTATION_GRACE_UNTIL,
+      scope: env.SALT_SCOPE,
+    });
+    const accepted = keyring.acceptedVersions();
+    console.log(
+      `[OK] Pseudonym salts: ${keyring.scope} scope, key version ${keyring.activeVersion}` +
+        (accepted.length > 1 ? ` (also accepting ${accepted.slice(1).join(', ')} until ${env.SALT_ROTATION_GRACE_UNTIL?.toISOString()})` : '')
+    );
+
+    const redactionService = new RedactionService(inferenceEngine, {
       useDeterministicReplacement: true,
-      salt: env.SALT,
+      keyring,
       timeoutMs: env.INFERENCE_TIMEOUT_MS,
       failStrategy: env.FAIL_STRATEGY,
     });
 
-    const sessionStore = new SessionStore(store);
+    const auditService = env.AUDIT_ENABLED
+      ? new AuditService(
+          [
+            new JsonlFileSink({
+              directory: env.AUDIT_DIR,
+              maxFileBytes: env.AUDIT_MAX_FILE_BYTES,
+              rotateIntervalMs: env.AUDIT_ROTATE_INTERVAL_MS,
+              maxFiles: env.AUDIT_MAX_FILES,
+            }),
+          ],
+          { hmacKey: env.AUDIT_HMAC_KEY ?? keyring.deriveKey('audit') }
+        )
+      : null;
+    if (auditService) {
+      redactionService.setAuditService(auditService);
+      console.log(`[OK] Audit log enabled: ${env.AUDIT_DIR}`);
+    }
+
+    const sessionStore = new SessionStore(store, {
+      halfLifeMs: env.RISK_HALF_LIFE_MS,
+      idleTtlMs: env.RISK_WINDOW_MS,
+    });
     const sessionService = new SessionService(sessionStore, {
       threshold: env.RISK_THRESHOLD,
+      warnThreshold: env.RISK_WARN_THRESHOLD,
+      throttleThreshold: env.RISK_THROTTLE_THRESHOLD,
+      throttleIntervalMs: env.RISK_THROTTLE_INTERVAL_MS,
       windowMs: env.RISK_WINDOW_MS,
+      weights: env.RISK_WEIGHTS,
+    });
+
+    const dictionaryService = new DictionaryService(new DictionaryStore(store), {
+      refreshMs: env.DICTIONARY_REFRESH_MS,
+    });
+    redactionService.setDictionaryService(dictionaryService);
+
+    const vault = new PseudonymVault(store, {
+      ttlSeconds: env.VAULT_TTL_SECONDS,
+      keyring,
+    });
+
+    const policyFile = env.POLICY_FILE ? await loadPolicyFile(env.POLICY_FILE) : null;
+    const policyService = new PolicyService(policyFile, {
+      failStrategy: env.FAIL_STRATEGY,
+      mode: env.REDACTION_MODE,
+      minConfidence: env.MIN_CONFIDENCE,
+      minConfidenceByType: env.MIN_CONFIDENCE_BY_TYPE,
+    });
+    if (env.POLICY_FILE) {
+      console.log(`[OK] Loaded ${policyService.tenantCount} tenant policies from ${env.POLICY_FILE}`);
+    }
+
+    const routingFile = env.ROUTING_FILE ? await loadRoutingFile(env.ROUTING_FILE) : null;
+    const upstreamRouter = new UpstreamRouter(routingFile, {
+      name: 'default',
+      baseUrl: env.UPSTREAM_URL.replace(/\/$/, ''),
+      apiKey: env.UPSTREAM_API_KEY,
+      headers: {},
+      timeoutMs: env.UPSTREAM_TIMEOUT_MS,
+      forwardClientKey: true,
+    });
+    if (env.ROUTING_FILE) {
+      console.log(`[OK] Loaded ${upstreamRouter.routeCount} upstream routes from ${env.ROUTING_FILE}`);
+    }
+
+    const credentialService = new CredentialService(new CredentialStore(store), env.CREDENTIAL_MODE);
+    if (env.CREDENTIAL_MODE !== 'proxy') {
+      console.log(`[OK] Bring-your-own-key mode: ${env.CREDENTIAL_MODE}`);
+    }
+
+    const contentPartService = new ContentPartService({
+      image: env.IMAGE_PART_POLICY,
+      audio: env.AUDIO_PART_POLICY,
+      file: env.FILE_PART_POLICY,
+      maxBytes: env.MAX_PART_BYTES,
     });
 
     console.log('[INIT] Phase 4: Starting HTTP Server\n');
@@ -39,20 +145,38 @@ async function bootstrap(): Promise<void> {
       store,
       redactionService,
       sessionService,
+      vault,
+      policyService,
+      dictionaryService,
+      upstreamRouter,
+      credentialService,
+      contentPartService,
     });
 
     await registerProxyRoutes(app);
+    await registerPiiRoutes(app);
+    if (env.ADMIN_TOKEN) {
+      await registerAdminRoutes(app, env.ADMIN_TOKEN);
+      console.log('[OK] Admin API enabled at /admin');
+    } else {
+      console.log('[INFO] Admin API disabled (no ADMIN_TOKEN provided)');
+    }
 
     await app.listen({ port: env.PORT, host: env.HOST });
 
     console.log(`\n[OK] PII Redaction Middleware running at http://${env.HOST}:${env.PORT}`);
-    console.log(`   Upstream: ${env.UPSTREAM_URL}`);
+    console.log(`   Upstream: ${env.UPSTREAM_URL}${env.ROUTING_FILE ? ` (default route, see ${env.ROUTING_FILE})` : ''}`);
     console.log(`   Fail Strategy: ${env.FAIL_STRATEGY}`);
+    console.log(`   Redaction Mode: ${env.REDACTION_MODE}`);
     console.log(`   Rate Limit: ${env.RATE_LIMIT_MAX} req/${env.RATE_LIMIT_WINDOW_MS}ms\n`);
 
     const shutdown = async (signal: string) => {
       console.log(`\n${signal} received. Shutting down gracefully...`);
       await app.close();
+      if (inferenceEngine instanceof InferencePool) {
+        await inferenceEngine.close();
+      }
+      await auditService?.close();
       await store.quit();
       console.log('[INFO] Goodbye!');
       process.exit(0);
@@ -61,6 +185,10 @@ async function bootstrap(): Promise<void> {
     process.on('SIGINT', () => shutdown('SIGINT'));
     process.on('SIGTERM', () => shutdown('SIGTERM'));
   } catch (error) {
+    if (error instanceof PolicyValidationError || error instanceof RoutingValidationError) {
+      console.error(`[ERROR] ${error.message}`);
+      process.exit(1);
+    }
     console.error('[ERROR] Failed to start:', error);
     process.exit(1);
   }
@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { PII_ENTITY_TYPES } from '../../shared/types/pii.types.js';
+import { REDACTION_MODES } from '../../shared/types/policy.types.js';
 
 const booleanFromString = z.preprocess((value) => {
   if (typeof value === 'string') {
@@ -10,6 +12,46 @@ const booleanFromString = z.preprocess((value) => {
   return value;
 }, z.boolean());
 
+/** JSON object keyed by entity type, e.g. `{"PERSON": 0.8}`. */
+function entityMapFromJson(name: string, value: z.ZodNumber) {
+  return z
+    .string()
+    .transform((raw, ctx) => {
+      try {
+        return JSON.parse(raw) as unknown;
+      } catch {
+        ctx.addIssue({ code: 'custom', message: `${name} must be a JSON object` });
+        return z.NEVER;
+      }
+    })
+    .pipe(z.partialRecord(z.enum(PII_ENTITY_TYPES), value));
+}
+
+const saltKeysFromList = z
+  .string()
+  .transform((value, ctx) => {
+    const keys: Array<{ version: string; key: string }> = [];
+    for (const entry of value.split(',').map((part) => part.trim()).filter(Boolean)) {
+      const separator = entry.indexOf(':');
+      const version = entry.slice(0, separator).trim();
+      const key = entry.slice(separator + 1);
+      if (separator <= 0 || key.length < 16) {
+        ctx.addIssue({ code: 'custom', message: 'SALT_KEYS entries must be "version:key" with keys of at least 16 characters' });
+        return z.NEVER;
+      }
+      if (keys.some((existing) => existing.version === version)) {
+        ctx.addIssue({ code: 'custom', message: `SALT_KEYS lists version "${version}" twice` });
+        return z.NEVER;
+      }
+      keys.push({ version, key });
+    }
+    if (keys.length === 0) {
+      ctx.addIssue({ code: 'custom', message: 'SALT_KEYS must list at least one key' });
+      return z.NEVER;
+    }
+    return keys;
+  });
+
 const envSchema = z.object({
   PORT: z.coerce.number().default(3000),
   HOST: z.string().default('0.0.0.0'),
@@ -20,25 +62,130 @@ const envSchema = z.object({
     .url()
     .default('https://api.openai.com/v1'),
   UPSTREAM_API_KEY: z.string().min(1).optional(),
+  // proxy: send the keys configured here; forward: send the caller's key to opted-in upstreams; mapped: swap it for stored keys
+  CREDENTIAL_MODE: z.enum(['proxy', 'forward', 'mapped']).default('proxy'),
+  // Upstream response headers relayed to clients; a trailing * matches a prefix
+  UPSTREAM_RESPONSE_HEADERS: z
+    .string()
+    .default('x-request-id,request-id,openai-processing-ms,x-ratelimit-*,anthropic-ratelimit-*,retry-after')
+    .transform((value) => value.split(',').map((name) => name.trim().toLowerCase()).filter(Boolean)),
+  // Per-upstream wait for response headers before failing over; routing entries may override it
+  UPSTREAM_TIMEOUT_MS: z.coerce.number().int().positive().default(60000),
+  // JSON/YAML table routing models to upstreams with ordered failover; unmatched models use UPSTREAM_URL
+  ROUTING_FILE: z.string().min(1).optional(),
+  // Token-ID embeddings input / completions prompts cannot be inspected: forward or refuse them
+  TOKEN_INPUT_POLICY: z.enum(['allow', 'reject']).default('reject'),
+  // Request image parts: strip re-encodes inline images without EXIF/GPS/XMP metadata
+  IMAGE_PART_POLICY: z.enum(['allow', 'strip', 'drop', 'reject']).default('strip'),
+  // Request audio and file/document parts
+  AUDIO_PART_POLICY: z.enum(['allow', 'drop', 'reject']).default('allow'),
+  FILE_PART_POLICY: z.enum(['allow', 'drop', 'reject']).default('allow'),
+  // Largest decoded inline (base64) part accepted; larger ones fail the request with 413.
+  // Chat, Responses, Messages and Gemini routes accept bodies of one such part plus 1 MiB
+  MAX_PART_BYTES: z.coerce.number().int().positive().default(5 * 1024 * 1024),
+
+  // Google Gemini API upstream (generateContent / streamGenerateContent)
+  GEMINI_UPSTREAM_URL: z
+    .string()
+    .url()
+    .default('https://generativelanguage.googleapis.com/v1beta'),
+  GEMINI_API_KEY: z.string().min(1).optional(),
+
+  // Anthropic Messages API upstream (/v1/messages)
+  ANTHROPIC_UPSTREAM_URL: z
+    .string()
+    .url()
+    .default('https://api.anthropic.com/v1'),
+  ANTHROPIC_API_KEY: z.string().min(1).optional(),
+  // Handling of request content blocks other than text/tool_result (image, document, tool_use...)
+  ANTHROPIC_BLOCK_POLICY: z.enum(['allow', 'drop', 'reject']).default('allow'),
 
   MODEL_ID: z.string().default('aaronaco/piiranha-v1-onnx'),
   MODEL_QUANTIZED: booleanFromString.default(true),
+  // 'onnx' runs onnxruntime-node directly with tokenizer offsets
+  INFERENCE_BACKEND: z.enum(['transformers', 'onnx']).default('transformers'),
+  // Tokens shared by consecutive windows when input exceeds the model's context
+  MODEL_WINDOW_OVERLAP: z.coerce.number().int().min(0).default(64),
 
   REDIS_URL: z.string().url().optional(),
 
   SALT: z.string().min(16, 'SALT must be at least 16 characters').default(
     'dev-salt-change-in-production-1234567890'
   ),
+  // Versioned pseudonym master keys ("2:newkey,1:oldkey"); SALT is used as version 1 when unset
+  SALT_KEYS: saltKeysFromList.optional(),
+  // Version for new pseudonyms; defaults to the first SALT_KEYS entry
+  SALT_ACTIVE_VERSION: z.string().min(1).optional(),
+  // Vault lookups keep accepting the other versions until this time (ISO 8601)
+  SALT_ROTATION_GRACE_UNTIL: z.coerce.date().optional(),
+  // Salts are derived per tenant, per session, or once for the whole deployment
+  SALT_SCOPE: z.enum(['tenant', 'session', 'global']).default('tenant'),
   FAIL_STRATEGY: z.enum(['closed', 'open']).default('closed'),
+  // shadow: detect and audit only, forwarding original text; policy files can override per tenant
+  REDACTION_MODE: z.enum(REDACTION_MODES).default('enforce'),
+  // Detections scoring below these are dropped; policy files can override both per tenant
+  MIN_CONFIDENCE: z.coerce.number().min(0).max(1).default(0),
+  // JSON map of entity type to minimum confidence, e.g. {"PERSON":0.8,"PASSWORD":0.2}
+  MIN_CONFIDENCE_BY_TYPE: entityMapFromJson('MIN_CONFIDENCE_BY_TYPE', z.number().min(0).max(1)).optional(),
+  // JSON/YAML per-tenant redaction policies, validated at startup
+  POLICY_FILE: z.string().min(1).optional(),
+
+  // Redaction audit log (JSONL, no raw values)
+  AUDIT_ENABLED: booleanFromString.default(true),
+  AUDIT_DIR: z.string().min(1).default('./logs/audit'),
+  AUDIT_MAX_FILE_BYTES: z.coerce.number().int().positive().default(50 * 1024 * 1024),
+  AUDIT_ROTATE_INTERVAL_MS: z.coerce.number().int().positive().default(86400000),
+  AUDIT_MAX_FILES: z.coerce.number().int().min(0).default(30),
+  // Key for session/value fingerprints; defaults to one derived from the active SALT_KEYS (or SALT) key
+  AUDIT_HMAC_KEY: z.string().min(16).optional(),
 
   RATE_LIMIT_MAX: z.coerce.number().default(100),
   RATE_LIMIT_WINDOW_MS: z.coerce.number().default(60000),
 
+  // Scores decay exponentially; enforcement escalates warn -> throttle -> block
   RISK_THRESHOLD: z.coerce.number().default(100),
+  RISK_THROTTLE_THRESHOLD: z.coerce.number().default(75),
+  RISK_WARN_THRESHOLD: z.coerce.number().default(50),
+  RISK_HALF_LIFE_MS: z.coerce.number().positive().default(900000),
+  // Throttled sessions are admitted once per interval
+  RISK_THROTTLE_INTERVAL_MS: z.coerce.number().int().positive().default(10000),
+  // Idle time after which a score is dropped; also the default manual ban length
   RISK_WINDOW_MS: z.coerce.number().default(3600000),
+  // JSON map of entity type to points, overriding the built-in weights
+  RISK_WEIGHTS: entityMapFromJson('RISK_WEIGHTS', z.number().min(0)).optional(),
+
+  // Bearer token for /admin session and dictionary endpoints; the admin API is off when unset
+  ADMIN_TOKEN: z.string().min(16, 'ADMIN_TOKEN must be at least 16 characters').optional(),
 
   INFERENCE_TIMEOUT_MS: z.coerce.number().default(500),
-});
+  // Worker threads running inference (0 = run on the main event loop)
+  INFERENCE_WORKERS: z.coerce.number().int().min(0).default(1),
+  INFERENCE_QUEUE_MAX: z.coerce.number().int().positive().default(256),
+  INFERENCE_BATCH_SIZE: z.coerce.number().int().positive().default(8),
+  INFERENCE_BATCH_WINDOW_MS: z.coerce.number().min(0).default(5),
+
+  // Tenant allow/deny dictionaries are re-read from the store at most this often
+  DICTIONARY_REFRESH_MS: z.coerce.number().int().positive().default(30000),
+
+  // Lifetime of pseudonym mappings kept for opt-in response re-hydration
+  VAULT_TTL_SECONDS: z.coerce.number().int().positive().default(3600),
+}).refine(
+  (config) =>
+    config.RISK_WARN_THRESHOLD <= config.RISK_THROTTLE_THRESHOLD &&
+    config.RISK_THROTTLE_THRESHOLD <= config.RISK_THRESHOLD,
+  {
+    message: 'Risk thresholds must satisfy WARN <= THROTTLE <= RISK_THRESHOLD',
+    path: ['RISK_THROTTLE_THRESHOLD'],
+  }
+).refine(
+  (config) =>
+    !config.SALT_ACTIVE_VERSION ||
+    (config.SALT_KEYS ?? [{ version: '1' }]).some((k) => k.version === config.SALT_ACTIVE_VERSION),
+  {
+    message: 'SALT_ACTIVE_VERSION must name a version listed in SALT_KEYS',
+    path: ['SALT_ACTIVE_VERSION'],
+  }
+);
 
 export type Env = z.infer<typeof envSchema>;
 
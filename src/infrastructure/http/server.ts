@@ -1,20 +1,44 @@
 import Fastify, { FastifyInstance } from 'fastify';
 import rateLimit from '@fastify/rate-limit';
 import { env } from '../config/env.js';
+import { metricsRegistry, rateLimitRejections } from '../metrics/metrics.js';
 import type { StoreClient } from '../store/store-client.js';
 import type { RedactionService } from '../../features/redaction/index.js';
 import type { SessionService } from '../../features/session/risk-engine.service.js';
+import type { PseudonymVault } from '../../features/vault/index.js';
+import type { PolicyService } from '../../features/policy/index.js';
+import type { DictionaryService } from '../../features/dictionary/index.js';
+import type { UpstreamRouter } from '../../features/routing/index.js';
+import { fingerprintCredential, type CredentialService } from '../../features/credentials/index.js';
+import type { ContentPartService } from '../../features/media/index.js';
 
 export interface ServerDependencies {
   store: StoreClient;
   redactionService: RedactionService;
   sessionService: SessionService;
+  vault: PseudonymVault;
+  policyService: PolicyService;
+  dictionaryService: DictionaryService;
+  upstreamRouter: UpstreamRouter;
+  credentialService: CredentialService;
+  contentPartService: ContentPartService;
 }
 
+/** Query parameters that carry credentials (Gemini's `?key=`), masked in request logs. */
+const SECRET_QUERY_PARAMS = /([?&](?:key|api_key|access_token)=)[^&]*/gi;
+
 export async function createServer(deps: ServerDependencies): Promise<FastifyInstance> {
   const app = Fastify({
     logger: {
       level: 'info',
+      serializers: {
+        req: (request) => ({
+          method: request.method,
+          url: request.url.replace(SECRET_QUERY_PARAMS, '$1[REDACTED]'),
+          host: request.host,
+          remoteAddress: request.ip,
+        }),
+      },
       transport: {
         target: 'pino-pretty',
         options: {
@@ -31,10 +55,12 @@ export async function createServer(deps: ServerDependencies): Promise<FastifyIns
     timeWindow: env.RATE_LIMIT_WINDOW_MS,
     keyGenerator: (request) => {
       const apiKey = request.headers['x-api-key'] || request.headers['authorization'];
-      if (apiKey) {
-        return typeof apiKey === 'string' ? apiKey : apiKey[0] ?? request.ip;
-      }
-      return request.ip;
+      const credential = typeof apiKey === 'string' ? apiKey : apiKey?.[0];
+      // Keys derived from credentials are hashed so tokens never reach the rate-limit store
+      return credential ? `key:${fingerprintCredential(credential)}` : request.ip;
+    },
+    onExceeded: () => {
+      rateLimitRejections.inc();
     },
     errorResponseBuilder: () => ({
       error: 'Too Many Requests',
@@ -50,6 +76,11 @@ export async function createServer(deps: ServerDependencies): Promise<FastifyIns
     timestamp: new Date().toISOString(),
   }));
 
+  app.get('/metrics', { config: { rateLimit: false } }, async (_request, reply) => {
+    reply.header('Content-Type', metricsRegistry.contentType);
+    return metricsRegistry.metrics();
+  });
+
   app.setErrorHandler((error, _request, reply) => {
     app.log.error(error);
 
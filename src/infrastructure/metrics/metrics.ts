@@ -0,0 +1,60 @@
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+
+/** Registry served at `/metrics` in Prometheus text format. */
+export const metricsRegistry = new Registry();
+
+collectDefaultMetrics({ register: metricsRegistry, prefix: 'pii_proxy_' });
+
+export const inferenceDuration = new Histogram({
+  name: 'pii_inference_duration_seconds',
+  help: 'Model inference time per text, excluding time queued for a worker',
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5],
+  registers: [metricsRegistry],
+});
+
+export const inferenceTextLength = new Histogram({
+  name: 'pii_inference_text_length_chars',
+  help: 'Length in characters of texts sent to the model',
+  buckets: [64, 256, 1024, 4096, 16384, 65536],
+  registers: [metricsRegistry],
+});
+
+export const entitiesRedacted = new Counter({
+  name: 'pii_entities_redacted_total',
+  help: 'Entities replaced, by entity type and direction',
+  labelNames: ['type', 'direction'] as const,
+  registers: [metricsRegistry],
+});
+
+export const inferenceTimeouts = new Counter({
+  name: 'pii_inference_timeouts_total',
+  help: 'Inference timeouts; fail_strategy="open" means text passed through unredacted',
+  labelNames: ['fail_strategy'] as const,
+  registers: [metricsRegistry],
+});
+
+export const sessionBans = new Counter({
+  name: 'pii_session_bans_total',
+  help: 'Sessions whose risk score crossed the ban threshold',
+  registers: [metricsRegistry],
+});
+
+export const rateLimitRejections = new Counter({
+  name: 'pii_rate_limit_rejections_total',
+  help: 'Requests rejected by the rate limiter',
+  registers: [metricsRegistry],
+});
+
+export const upstreamResponses = new Counter({
+  name: 'pii_upstream_responses_total',
+  help: 'Upstream LLM responses by provider and HTTP status code',
+  labelNames: ['provider', 'status'] as const,
+  registers: [metricsRegistry],
+});
+
+export const activeStreams = new Gauge({
+  name: 'pii_active_streams',
+  help: 'SSE streams currently being proxied',
+  labelNames: ['provider'] as const,
+  registers: [metricsRegistry],
+});
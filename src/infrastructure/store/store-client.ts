@@ -1,10 +1,48 @@
 import { Redis } from 'ioredis';
 import { env } from '../config/env.js';
 
+export interface DecayOptions {
+  /** Time for a score to lose half its value. */
+  halfLifeMs: number;
+  /** Key lifetime, refreshed on every increment. */
+  ttlMs: number;
+  /** Timestamp used for the decay calculation; defaults to Date.now(). */
+  now?: number;
+}
+
+/** Fields of a decayed counter hash: `score` as of `updatedAt` (epoch ms). */
+export interface DecayedCounter {
+  score: number;
+  updatedAt: number;
+}
+
+/** Exponential decay shared by both stores so they agree on every score. */
+export function decayScore(counter: DecayedCounter, halfLifeMs: number, now = Date.now()): number {
+  const elapsed = Math.max(0, now - counter.updatedAt);
+  return counter.score * Math.pow(0.5, elapsed / halfLifeMs);
+}
+
+/** Redis counterpart of `decayScore` + add; the score is returned as a string to keep its fraction. */
+const INCR_DECAYED_SCRIPT = `
+local now = tonumber(ARGV[2])
+local score = tonumber(redis.call('HGET', KEYS[1], 'score') or '0')
+local updatedAt = tonumber(redis.call('HGET', KEYS[1], 'updatedAt') or ARGV[2])
+local elapsed = math.max(0, now - updatedAt)
+score = score * math.pow(0.5, elapsed / tonumber(ARGV[3])) + tonumber(ARGV[1])
+redis.call('HSET', KEYS[1], 'score', tostring(score), 'updatedAt', ARGV[2])
+redis.call('PEXPIRE', KEYS[1], ARGV[4])
+return tostring(score)
+`;
+
 /** LRU-like in-memory store for development or fallback. */
 class InMemoryStore {
   private store = new Map<string, { value: string; expiresAt: number | null }>();
   private readonly maxSize = 10000;
+  private persistentPrefixes: string[] = [];
+
+  markPersistent(prefix: string): void {
+    this.persistentPrefixes.push(prefix);
+  }
 
   async get(key: string): Promise<string | null> {
     const entry = this.store.get(key);
@@ -19,10 +57,7 @@ class InMemoryStore {
   }
 
   async set(key: string, value: string, ttlSeconds?: number): Promise<void> {
-    if (this.store.size >= this.maxSize) {
-      const firstKey = this.store.keys().next().value as string;
-      this.store.delete(firstKey);
-    }
+    this.evictIfFull();
 
     this.store.set(key, {
       value,
@@ -52,15 +87,86 @@ class InMemoryStore {
   }
 
   async hincrby(key: string, field: string, increment: number): Promise<number> {
-    const hashKey = `${key}:${field}`;
-    const current = await this.get(hashKey);
-    const newValue = parseInt(current || '0', 10) + increment;
-    await this.set(hashKey, newValue.toString());
+    const hash = await this.readHash(key);
+    const newValue = parseInt(hash[field] || '0', 10) + increment;
+    hash[field] = newValue.toString();
+    this.writeHash(key, hash);
     return newValue;
   }
 
   async hget(key: string, field: string): Promise<string | null> {
-    return this.get(`${key}:${field}`);
+    const hash = await this.readHash(key);
+    return hash[field] ?? null;
+  }
+
+  async hset(key: string, fields: Record<string, string>): Promise<void> {
+    const hash = await this.readHash(key);
+    this.writeHash(key, { ...hash, ...fields });
+  }
+
+  async hgetall(key: string): Promise<Record<string, string>> {
+    return this.readHash(key);
+  }
+
+  async incrDecayed(key: string, amount: number, options: DecayOptions): Promise<number> {
+    const now = options.now ?? Date.now();
+    const hash = await this.readHash(key);
+    const current = hash.score
+      ? decayScore(
+          { score: parseFloat(hash.score), updatedAt: parseInt(hash.updatedAt ?? '0', 10) },
+          options.halfLifeMs,
+          now
+        )
+      : 0;
+    const score = current + amount;
+
+    this.writeHash(key, { score: score.toString(), updatedAt: now.toString() });
+    this.store.get(key)!.expiresAt = now + options.ttlMs;
+    return score;
+  }
+
+  async ttl(key: string): Promise<number> {
+    const entry = this.store.get(key);
+    if (!entry || (entry.expiresAt && Date.now() > entry.expiresAt)) return -2;
+    if (!entry.expiresAt) return -1;
+    return Math.ceil((entry.expiresAt - Date.now()) / 1000);
+  }
+
+  /** Sorted sets reuse the hash encoding, storing each member's score as a string. */
+  async zadd(key: string, score: number, member: string): Promise<void> {
+    const set = await this.readHash(key);
+    set[member] = score.toString();
+    this.writeHash(key, set);
+  }
+
+  async zrem(key: string, member: string): Promise<number> {
+    const set = await this.readHash(key);
+    if (!(member in set)) return 0;
+    delete set[member];
+    this.writeHash(key, set);
+    return 1;
+  }
+
+  async zremrangebyscore(key: string, min: number, max: number): Promise<number> {
+    const set = await this.readHash(key);
+    const doomed = Object.keys(set).filter((member) => {
+      const score = parseFloat(set[member]!);
+      return score >= min && score <= max;
+    });
+    if (doomed.length === 0) return 0;
+    for (const member of doomed) {
+      delete set[member];
+    }
+    this.writeHash(key, set);
+    return doomed.length;
+  }
+
+  async zrevrangeWithScores(key: string, start: number, stop: number): Promise<SortedSetEntry[]> {
+    const set = await this.readHash(key);
+    const entries = Object.entries(set)
+      .map(([member, score]) => ({ member, score: parseFloat(score) }))
+      .sort((a, b) => b.score - a.score);
+    return entries.slice(start, stop < 0 ? entries.length + stop + 1 : stop + 1);
   }
 
   async del(key: string): Promise<number> {
@@ -72,6 +178,38 @@ class InMemoryStore {
   async quit(): Promise<void> {
     this.store.clear();
   }
+
+  /** Drops the oldest key outside the persistent prefixes once the store is full. */
+  private evictIfFull(): void {
+    if (this.store.size < this.maxSize) return;
+
+    for (const key of this.store.keys()) {
+      if (!this.persistentPrefixes.some((prefix) => key.startsWith(prefix))) {
+        this.store.delete(key);
+        return;
+      }
+    }
+  }
+
+  /** Hashes are serialized as JSON under a single key so TTL and del apply to all fields. */
+  private async readHash(key: string): Promise<Record<string, string>> {
+    const raw = await this.get(key);
+    return raw ? (JSON.parse(raw) as Record<string, string>) : {};
+  }
+
+  private writeHash(key: string, hash: Record<string, string>): void {
+    const expiresAt = this.store.get(key)?.expiresAt ?? null;
+    this.store.delete(key);
+    this.evictIfFull();
+    this.store.set(key, { value: JSON.stringify(hash), expiresAt });
+  }
+}
+
+/** Redis spells infinite score bounds `-inf` / `+inf`. */
+function scoreBound(score: number): string {
+  if (score === -Infinity) return '-inf';
+  if (score === Infinity) return '+inf';
+  return score.toString();
 }
 
 class RedisStore {
@@ -93,6 +231,9 @@ class RedisStore {
     await this.client.connect();
   }
 
+  /** Redis never evicts keys without a TTL under the default policy. */
+  markPersistent(_prefix: string): void {}
+
   async get(key: string): Promise<string | null> {
     return this.client.get(key);
   }
@@ -122,6 +263,53 @@ class RedisStore {
     return this.client.hget(key, field);
   }
 
+  async hset(key: string, fields: Record<string, string>): Promise<void> {
+    await this.client.hset(key, fields);
+  }
+
+  async hgetall(key: string): Promise<Record<string, string>> {
+    return this.client.hgetall(key);
+  }
+
+  async incrDecayed(key: string, amount: number, options: DecayOptions): Promise<number> {
+    const now = options.now ?? Date.now();
+    const result = await this.client.eval(
+      INCR_DECAYED_SCRIPT,
+      1,
+      key,
+      amount.toString(),
+      now.toString(),
+      options.halfLifeMs.toString(),
+      options.ttlMs.toString()
+    );
+    return parseFloat(result as string);
+  }
+
+  async ttl(key: string): Promise<number> {
+    return this.client.ttl(key);
+  }
+
+  async zadd(key: string, score: number, member: string): Promise<void> {
+    await this.client.zadd(key, score, member);
+  }
+
+  async zrem(key: string, member: string): Promise<number> {
+    return this.client.zrem(key, member);
+  }
+
+  async zremrangebyscore(key: string, min: number, max: number): Promise<number> {
+    return this.client.zremrangebyscore(key, scoreBound(min), scoreBound(max));
+  }
+
+  async zrevrangeWithScores(key: string, start: number, stop: number): Promise<SortedSetEntry[]> {
+    const flat = await this.client.zrevrange(key, start, stop, 'WITHSCORES');
+    const entries: SortedSetEntry[] = [];
+    for (let i = 0; i < flat.length; i += 2) {
+      entries.push({ member: flat[i]!, score: parseFloat(flat[i + 1]!) });
+    }
+    return entries;
+  }
+
   async del(key: string): Promise<number> {
     return this.client.del(key);
   }
@@ -131,14 +319,36 @@ class RedisStore {
   }
 }
 
+export interface SortedSetEntry {
+  member: string;
+  score: number;
+}
+
 /** Unified interface for key-value storage operations. */
 export interface StoreClient {
+  /** Exempts keys under `prefix` from the in-memory store's size-based eviction. */
+  markPersistent(prefix: string): void;
   get(key: string): Promise<string | null>;
   set(key: string, value: string, ttlSeconds?: number): Promise<void>;
   incr(key: string): Promise<number>;
   expire(key: string, ttlSeconds: number): Promise<boolean>;
   hincrby(key: string, field: string, increment: number): Promise<number>;
   hget(key: string, field: string): Promise<string | null>;
+  hset(key: string, fields: Record<string, string>): Promise<void>;
+  hgetall(key: string): Promise<Record<string, string>>;
+  /**
+   * Atomically decays the score stored in the hash at `key`, adds `amount`
+   * and refreshes the TTL. Read the current value with `hgetall` + `decayScore`.
+   */
+  incrDecayed(key: string, amount: number, options: DecayOptions): Promise<number>;
+  /** Seconds until expiry; -1 when the key has no TTL, -2 when it does not exist. */
+  ttl(key: string): Promise<number>;
+  zadd(key: string, score: number, member: string): Promise<void>;
+  zrem(key: string, member: string): Promise<number>;
+  /** Removes members scored within `[min, max]`; either bound may be infinite. */
+  zremrangebyscore(key: string, min: number, max: number): Promise<number>;
+  /** Members ordered by descending score; `stop` is inclusive and may be negative. */
+  zrevrangeWithScores(key: string, start: number, stop: number): Promise<SortedSetEntry[]>;
   del(key: string): Promise<number>;
   quit(): Promise<void>;
 }
@@ -153,6 +363,9 @@ export async function createStoreClient(): Promise<StoreClient> {
     return redisStore;
   }
 
-  console.log('[INFO] Using in-memory store (no REDIS_URL provided)');
+  console.warn(
+    '[WARN] Using in-memory store (no REDIS_URL provided) - sessions and configuration are lost on restart ' +
+      'and not shared between instances'
+  );
   return new InMemoryStore();
 }
@@ -0,0 +1,127 @@
+export type AnthropicRole = 'user' | 'assistant';
+
+export interface AnthropicTextBlock {
+  type: 'text';
+  text: string;
+  [key: string]: unknown;
+}
+
+export interface AnthropicToolResultBlock {
+  type: 'tool_result';
+  tool_use_id: string;
+  content?: string | AnthropicContentBlock[];
+  is_error?: boolean;
+  [key: string]: unknown;
+}
+
+export interface AnthropicOtherBlock {
+  type: string;
+  [key: string]: unknown;
+}
+
+export type AnthropicContentBlock = AnthropicTextBlock | AnthropicToolResultBlock | AnthropicOtherBlock;
+
+export interface AnthropicMessage {
+  role: AnthropicRole;
+  content: string | AnthropicContentBlock[];
+}
+
+export interface AnthropicMessagesRequest {
+  model: string;
+  messages: AnthropicMessage[];
+  system?: string | AnthropicTextBlock[];
+  max_tokens: number;
+  stream?: boolean;
+  [key: string]: unknown;
+}
+
+export interface AnthropicMessagesResponse {
+  id?: string;
+  type?: 'message';
+  role?: 'assistant';
+  model?: string;
+  content: AnthropicContentBlock[];
+  stop_reason?: string | null;
+  stop_sequence?: string | null;
+  usage?: unknown;
+  [key: string]: unknown;
+}
+
+export type AnthropicStreamDelta =
+  | { type: 'text_delta'; text: string }
+  | { type: 'input_json_delta'; partial_json: string }
+  | { type: string; [key: string]: unknown };
+
+export interface AnthropicStreamEvent {
+  type: string;
+  index?: number;
+  content_block?: AnthropicContentBlock;
+  delta?: AnthropicStreamDelta | Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+/** What to do with content blocks other than text and tool_result. */
+export type AnthropicBlockPolicy = 'allow' | 'drop' | 'reject';
+
+export class BlockPolicyError extends Error {
+  constructor(blockType: string) {
+    super(`Content block type "${blockType}" is not allowed by the redaction policy.`);
+    this.name = 'BlockPolicyError';
+  }
+}
+
+export function isTextBlock(block: AnthropicContentBlock): block is AnthropicTextBlock {
+  return block?.type === 'text' && typeof (block as AnthropicTextBlock).text === 'string';
+}
+
+/** Decides what happens to an allowed non-text block: the block to forward, or null to drop it. */
+export type AnthropicBlockHandler = (block: AnthropicContentBlock) => Promise<AnthropicContentBlock | null>;
+
+/**
+ * Redacts text blocks (including text nested in tool_result blocks) and applies
+ * `policy` to every other block type. Throws BlockPolicyError on 'reject'.
+ * Blocks the policy allows then go through `handleBlock`, if given.
+ */
+export async function redactAnthropicContent(
+  content: string | AnthropicContentBlock[],
+  redactText: (text: string) => Promise<string>,
+  policy: AnthropicBlockPolicy,
+  handleBlock?: AnthropicBlockHandler
+): Promise<string | AnthropicContentBlock[]> {
+  if (typeof content === 'string') {
+    return redactText(content);
+  }
+
+  if (!Array.isArray(content)) return content;
+
+  const redacted: AnthropicContentBlock[] = [];
+  for (const block of content) {
+    if (isTextBlock(block)) {
+      redacted.push({ ...block, text: await redactText(block.text) });
+      continue;
+    }
+
+    if (block?.type === 'tool_result') {
+      const toolResult = block as AnthropicToolResultBlock;
+      redacted.push(
+        toolResult.content === undefined
+          ? toolResult
+          : {
+              ...toolResult,
+              content: await redactAnthropicContent(toolResult.content, redactText, policy, handleBlock),
+            }
+      );
+      continue;
+    }
+
+    if (policy === 'reject') {
+      throw new BlockPolicyError(block?.type ?? 'unknown');
+    }
+    if (policy === 'allow') {
+      const handled = handleBlock ? await handleBlock(block) : block;
+      if (handled) redacted.push(handled);
+    }
+  }
+
+  return redacted;
+}
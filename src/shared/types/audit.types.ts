@@ -0,0 +1,47 @@
+import type { PiiEntityType } from './pii.types.js';
+import type { RedactionAction, RedactionMode } from './policy.types.js';
+
+export type AuditDirection = 'prompt' | 'response';
+
+/**
+ * In shadow mode the outcome is what enforcement would have done.
+ *
+ * - redacted: at least one entity was replaced
+ * - clean: nothing to redact
+ * - blocked: rejected by a tenant policy
+ * - fail_open: inference timed out and text passed through unredacted
+ */
+export type AuditOutcome = 'redacted' | 'clean' | 'blocked' | 'fail_open';
+
+/** Where a redaction happened; attached by the proxy layer. */
+export interface AuditContext {
+  sessionId: string;
+  route: string;
+}
+
+export interface AuditEntityRecord {
+  type: PiiEntityType;
+  confidence: number;
+  recognizer: string;
+  action: RedactionAction;
+  /** Keyed HMAC of the original value; equal values share a fingerprint. */
+  fingerprint: string;
+}
+
+/** One redaction call. Never carries raw text or original values. */
+export interface AuditEvent {
+  timestamp: string;
+  /** Keyed HMAC of the session ID. */
+  sessionHash: string;
+  tenantId?: string;
+  /** Salt key version active when the event was recorded. */
+  keyVersion?: string;
+  mode: RedactionMode;
+  direction: AuditDirection;
+  route: string;
+  outcome: AuditOutcome;
+  entityCount: number;
+  countsByType: Partial<Record<PiiEntityType, number>>;
+  entities: AuditEntityRecord[];
+  processingTimeMs: number;
+}
@@ -1,3 +1,5 @@
+import { REDACTION_CONCURRENCY, mapConcurrent } from '../utils/concurrency.js';
+
 export interface GeminiContent {
   parts: GeminiPart[];
   role?: 'user' | 'model';
@@ -9,6 +11,9 @@ export interface GeminiPart {
     mimeType: string;
     data: string;
   };
+  functionCall?: Record<string, unknown>;
+  functionResponse?: Record<string, unknown>;
+  [key: string]: unknown;
 }
 
 export interface GeminiGenerateContentRequest {
@@ -16,6 +21,7 @@ export interface GeminiGenerateContentRequest {
   generationConfig?: GeminiGenerationConfig;
   safetySettings?: GeminiSafetySetting[];
   systemInstruction?: GeminiContent;
+  [key: string]: unknown;
 }
 
 export interface GeminiGenerationConfig {
@@ -59,17 +65,21 @@ export interface GeminiGenerateContentResponse {
 
 export interface GeminiStreamChunk {
   candidates?: Array<{
-    content: {
-      parts: Array<{ text?: string }>;
+    content?: {
+      parts?: GeminiPart[];
       role?: string;
     };
     finishReason?: string;
+    index?: number;
+    safetyRatings?: GeminiSafetyRating[];
   }>;
   usageMetadata?: {
     promptTokenCount?: number;
     candidatesTokenCount?: number;
     totalTokenCount?: number;
   };
+  modelVersion?: string;
+  [key: string]: unknown;
 }
 
 export function extractTextFromParts(parts: GeminiPart[]): string {
@@ -85,3 +95,24 @@ export function createTextContent(text: string, role: 'user' | 'model' = 'user')
     parts: [{ text }],
   };
 }
+
+/** Decides what happens to a non-text part: the part to forward, or null to drop it. */
+export type GeminiPartHandler = (part: GeminiPart) => Promise<GeminiPart | null>;
+
+/** Applies `redactText` to every text part; other parts go through `handlePart`, which keeps them by default. */
+export async function redactGeminiContent(
+  content: GeminiContent,
+  redactText: (text: string) => Promise<string>,
+  handlePart?: GeminiPartHandler
+): Promise<GeminiContent> {
+  if (!Array.isArray(content?.parts)) return content;
+
+  const parts = await mapConcurrent(content.parts, REDACTION_CONCURRENCY, async (part) => {
+    if (part && typeof part.text === 'string') {
+      return { ...part, text: await redactText(part.text) };
+    }
+    return part && handlePart ? handlePart(part) : part;
+  });
+
+  return { ...content, parts: parts.filter((part) => part !== null) };
+}
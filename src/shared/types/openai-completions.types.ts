@@ -0,0 +1,28 @@
+import type { OpenAiTextOrTokens } from './openai.types.js';
+
+/** Legacy `/v1/completions` request. */
+export interface OpenAiCompletionRequest {
+  model: string;
+  prompt: OpenAiTextOrTokens;
+  suffix?: string | null;
+  stream?: boolean;
+  [key: string]: unknown;
+}
+
+export interface OpenAiCompletionChoice {
+  index: number;
+  text: string;
+  logprobs?: unknown;
+  finish_reason?: string | null;
+}
+
+/** Both the full response and each streamed chunk (`object: 'text_completion'`). */
+export interface OpenAiCompletionResponse {
+  id?: string;
+  object?: string;
+  created?: number;
+  model?: string;
+  choices?: OpenAiCompletionChoice[];
+  usage?: unknown;
+  [key: string]: unknown;
+}
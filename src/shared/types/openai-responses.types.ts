@@ -0,0 +1,202 @@
+import { REDACTION_CONCURRENCY, mapConcurrent } from '../utils/concurrency.js';
+import { redactJsonText } from './openai.types.js';
+
+/** `input_text` in requests; `output_text` when earlier assistant turns are replayed. */
+export interface ResponsesTextPart {
+  type: 'input_text' | 'output_text';
+  text: string;
+  [key: string]: unknown;
+}
+
+export interface ResponsesRefusalPart {
+  type: 'refusal';
+  refusal: string;
+  [key: string]: unknown;
+}
+
+export interface ResponsesOtherPart {
+  type: string;
+  [key: string]: unknown;
+}
+
+export type ResponsesContentPart = ResponsesTextPart | ResponsesRefusalPart | ResponsesOtherPart;
+
+export interface ResponsesMessageItem {
+  type?: 'message';
+  id?: string;
+  role: 'user' | 'assistant' | 'system' | 'developer';
+  content: string | ResponsesContentPart[];
+  [key: string]: unknown;
+}
+
+export interface ResponsesFunctionCallItem {
+  type: 'function_call';
+  id?: string;
+  call_id: string;
+  name: string;
+  arguments: string;
+  [key: string]: unknown;
+}
+
+export interface ResponsesFunctionCallOutputItem {
+  type: 'function_call_output';
+  call_id: string;
+  output: string;
+  [key: string]: unknown;
+}
+
+export interface ResponsesOtherItem {
+  type: string;
+  [key: string]: unknown;
+}
+
+export type ResponsesItem =
+  | ResponsesMessageItem
+  | ResponsesFunctionCallItem
+  | ResponsesFunctionCallOutputItem
+  | ResponsesOtherItem;
+
+export interface ResponsesRequest {
+  model: string;
+  input?: string | ResponsesItem[];
+  instructions?: string | null;
+  stream?: boolean;
+  [key: string]: unknown;
+}
+
+export interface ResponsesResponse {
+  id?: string;
+  object?: 'response';
+  status?: string;
+  output: ResponsesItem[];
+  /** SDK convenience field: all output_text parts joined. */
+  output_text?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Server-sent event of a streamed response, e.g. `response.output_text.delta`
+ * (`delta`), `response.output_text.done` (`text`), `response.output_item.done`
+ * (`item`) or `response.completed` (`response`).
+ */
+export interface ResponsesStreamEvent {
+  type: string;
+  sequence_number?: number;
+  item_id?: string;
+  output_index?: number;
+  content_index?: number;
+  delta?: string;
+  text?: string;
+  refusal?: string;
+  arguments?: string;
+  part?: ResponsesContentPart;
+  item?: ResponsesItem;
+  response?: ResponsesResponse;
+  [key: string]: unknown;
+}
+
+function isMessageItem(item: ResponsesItem): item is ResponsesMessageItem {
+  return (item.type === undefined || item.type === 'message') && 'role' in item && 'content' in item;
+}
+
+function isFunctionCallItem(item: ResponsesItem): item is ResponsesFunctionCallItem {
+  return item.type === 'function_call' && typeof (item as ResponsesFunctionCallItem).arguments === 'string';
+}
+
+function isFunctionCallOutputItem(item: ResponsesItem): item is ResponsesFunctionCallOutputItem {
+  return item.type === 'function_call_output' && typeof (item as ResponsesFunctionCallOutputItem).output === 'string';
+}
+
+export function isTextPart(part: ResponsesContentPart): part is ResponsesTextPart {
+  return (part?.type === 'input_text' || part?.type === 'output_text') &&
+    typeof (part as ResponsesTextPart).text === 'string';
+}
+
+export function isRefusalPart(part: ResponsesContentPart): part is ResponsesRefusalPart {
+  return part?.type === 'refusal' && typeof (part as ResponsesRefusalPart).refusal === 'string';
+}
+
+/** Decides what happens to a non-text input part: the part to forward, or null to drop it. */
+export type ResponsesPartHandler = (part: ResponsesContentPart) => Promise<ResponsesContentPart | null>;
+
+export async function redactResponsesContentPart(
+  part: ResponsesContentPart,
+  redactText: (text: string) => Promise<string>
+): Promise<ResponsesContentPart> {
+  if (isTextPart(part)) {
+    return { ...part, text: await redactText(part.text) };
+  }
+  if (isRefusalPart(part)) {
+    return { ...part, refusal: await redactText(part.refusal) };
+  }
+  return part;
+}
+
+/**
+ * Redacts message text, function call arguments and function call outputs
+ * (value by value when they are JSON). Other item types pass through; other
+ * message parts go through `handlePart`, which keeps them by default.
+ */
+export async function redactResponsesItem(
+  item: ResponsesItem,
+  redactText: (text: string) => Promise<string>,
+  handlePart?: ResponsesPartHandler
+): Promise<ResponsesItem> {
+  if (isMessageItem(item)) {
+    const content = typeof item.content === 'string'
+      ? await redactText(item.content)
+      : Array.isArray(item.content)
+        ? (await mapConcurrent(item.content, REDACTION_CONCURRENCY, (part) =>
+            handlePart && part && !isTextPart(part) && !isRefusalPart(part)
+              ? handlePart(part)
+              : redactResponsesContentPart(part, redactText)
+          )).filter((part) => part !== null)
+        : item.content;
+    return { ...item, content };
+  }
+  if (isFunctionCallItem(item)) {
+    return { ...item, arguments: await redactJsonText(item.arguments, redactText) };
+  }
+  if (isFunctionCallOutputItem(item)) {
+    return { ...item, output: await redactJsonText(item.output, redactText) };
+  }
+  return item;
+}
+
+export async function redactResponsesInput(
+  input: string | ResponsesItem[],
+  redactText: (text: string) => Promise<string>,
+  handlePart?: ResponsesPartHandler
+): Promise<string | ResponsesItem[]> {
+  if (typeof input === 'string') {
+    return redactText(input);
+  }
+  return mapConcurrent(input, REDACTION_CONCURRENCY, (item) => redactResponsesItem(item, redactText, handlePart));
+}
+
+/** Joins the output_text parts of message items, as the SDK's `output_text` does. */
+export function joinOutputText(output: ResponsesItem[]): string {
+  return output
+    .filter(isMessageItem)
+    .flatMap((item) => (Array.isArray(item.content) ? item.content : []))
+    .filter((part): part is ResponsesTextPart => isTextPart(part) && part.type === 'output_text')
+    .map((part) => part.text)
+    .join('');
+}
+
+/** Redacts every output item and rebuilds `output_text` from the redacted parts. */
+export async function redactResponsesResponse(
+  response: ResponsesResponse,
+  redactText: (text: string) => Promise<string>
+): Promise<ResponsesResponse> {
+  if (!Array.isArray(response?.output)) return response;
+
+  const output = await mapConcurrent(response.output, REDACTION_CONCURRENCY, (item) =>
+    redactResponsesItem(item, redactText)
+  );
+  return {
+    ...response,
+    output,
+    ...(typeof response.output_text === 'string' ? { output_text: joinOutputText(output) } : {}),
+  };
+}
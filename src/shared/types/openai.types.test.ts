@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { redactJsonText, redactTextOrTokens } from './openai.types.js';
+import { REDACTION_CONCURRENCY } from '../utils/concurrency.js';
+
+/** Redacts by echoing, recording the most calls that were in flight at once. */
+function createConcurrencyProbe() {
+  const probe = {
+    peak: 0,
+    inFlight: 0,
+    redact: async (text: string) => {
+      probe.peak = Math.max(probe.peak, ++probe.inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      probe.inFlight -= 1;
+      return text.toUpperCase();
+    },
+  };
+  return probe;
+}
+
+/** Replaces card-like digit runs, standing in for the redaction service. */
+async function redactCards(text: string): Promise<string> {
+  return text.replace(/\b\d{16}\b/g, '[CARD]');
+}
+
+describe('redactJsonText', () => {
+  it('redacts numbers holding PII as strings', async () => {
+    const json = '{"card": 4111111111111111, "qty": 2, "note": "card 4111111111111111"}';
+
+    expect(await redactJsonText(json, redactCards)).toBe('{"card": "[CARD]", "qty": 2, "note": "card [CARD]"}');
+  });
+
+  it('leaves the source text untouched when nothing is found', async () => {
+    const json = '{\n  "id": 12345678901234567890,\n  "ratio": 1.50e3,\n  "name": "caf\\u00e9",\n  "ok": true\n}';
+
+    expect(await redactJsonText(json, redactCards)).toBe(json);
+  });
+
+  it('does not treat object keys as values', async () => {
+    const json = '{"4111111111111111" : [null, "x"]}';
+
+    expect(await redactJsonText(json, redactCards)).toBe(json);
+  });
+
+  it('redacts invalid JSON as plain text', async () => {
+    expect(await redactJsonText('{"card": 4111111111111111', redactCards)).toBe('{"card": [CARD]');
+  });
+
+  it('keeps a bounded number of values in flight', async () => {
+    const probe = createConcurrencyProbe();
+    const values = Array.from({ length: 300 }, (_, i) => `value ${i}`);
+
+    const redacted = await redactJsonText(JSON.stringify(values), probe.redact);
+
+    expect(redacted).toBe(JSON.stringify(values.map((value) => value.toUpperCase())));
+    expect(probe.peak).toBeLessThanOrEqual(REDACTION_CONCURRENCY);
+  });
+});
+
+describe('redactTextOrTokens', () => {
+  it('redacts more inputs than the inference queue holds, in order and a few at a time', async () => {
+    const probe = createConcurrencyProbe();
+    const inputs = Array.from({ length: 600 }, (_, i) => `chunk ${i}`);
+
+    const redacted = await redactTextOrTokens(inputs, probe.redact, 'reject');
+
+    expect(redacted).toEqual(inputs.map((input) => input.toUpperCase()));
+    expect(probe.peak).toBeLessThanOrEqual(REDACTION_CONCURRENCY);
+  });
+});
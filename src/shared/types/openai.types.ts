@@ -1,3 +1,5 @@
+import { REDACTION_CONCURRENCY, mapConcurrent } from '../utils/concurrency.js';
+
 export type OpenAiRole = 'system' | 'developer' | 'user' | 'assistant' | 'tool';
 
 export interface OpenAiTextPart {
@@ -12,10 +14,33 @@ export interface OpenAiNonTextPart {
 
 export type OpenAiMessageContent = string | Array<OpenAiTextPart | OpenAiNonTextPart>;
 
+export interface OpenAiToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    /** JSON-encoded arguments as generated by the model. */
+    arguments: string;
+  };
+}
+
+/** Streamed tool call fragment; `arguments` arrives in pieces for the same `index`. */
+export interface OpenAiToolCallDelta {
+  index: number;
+  id?: string;
+  type?: 'function';
+  function?: {
+    name?: string;
+    arguments?: string;
+  };
+}
+
 export interface OpenAiMessage {
   role: OpenAiRole;
-  content: OpenAiMessageContent;
+  /** Null on assistant messages that only carry tool calls. */
+  content: OpenAiMessageContent | null;
   name?: string;
+  tool_calls?: OpenAiToolCall[];
   tool_call_id?: string;
 }
 
@@ -45,9 +70,16 @@ export interface OpenAiChatCompletionResponse {
   [key: string]: unknown;
 }
 
+export interface OpenAiChatCompletionDelta {
+  role?: OpenAiRole;
+  content?: string | null;
+  tool_calls?: OpenAiToolCallDelta[];
+  [key: string]: unknown;
+}
+
 export interface OpenAiChatCompletionChunkChoice {
   index: number;
-  delta: Partial<OpenAiMessage>;
+  delta: OpenAiChatCompletionDelta;
   finish_reason?: string | null;
 }
 
@@ -61,24 +93,193 @@ export interface OpenAiChatCompletionChunk {
   [key: string]: unknown;
 }
 
-export function redactMessageContent(
-  content: OpenAiMessageContent,
-  redactText: (text: string) => Promise<string>
-): Promise<OpenAiMessageContent> {
+/** One string, several strings, or pre-tokenized input (token IDs). */
+export type OpenAiTextOrTokens = string | string[] | number[] | number[][];
+
+export interface OpenAiEmbeddingsRequest {
+  model: string;
+  input: OpenAiTextOrTokens;
+  [key: string]: unknown;
+}
+
+/** Token-ID inputs cannot be inspected for PII, so they are either forwarded or refused. */
+export type TokenInputPolicy = 'allow' | 'reject';
+
+export class TokenInputPolicyError extends Error {
+  constructor() {
+    super('Token array inputs cannot be redacted and are not allowed by the redaction policy.');
+    this.name = 'TokenInputPolicyError';
+  }
+}
+
+export function isTextOrTokens(input: unknown): input is OpenAiTextOrTokens {
+  if (typeof input === 'string') return true;
+  if (!Array.isArray(input) || input.length === 0) return false;
+  return (
+    input.every((item) => typeof item === 'string') ||
+    input.every((item) => typeof item === 'number') ||
+    input.every((item) => Array.isArray(item) && item.every((token) => typeof token === 'number'))
+  );
+}
+
+/**
+ * Redacts every string in an embeddings `input` or completions `prompt`, a few
+ * at a time so large batches do not overflow the inference queue. Token-ID
+ * inputs are returned unchanged under 'allow' and throw TokenInputPolicyError under 'reject'.
+ */
+export async function redactTextOrTokens(
+  input: OpenAiTextOrTokens,
+  redactText: (text: string) => Promise<string>,
+  tokenPolicy: TokenInputPolicy
+): Promise<OpenAiTextOrTokens> {
+  if (typeof input === 'string') {
+    return redactText(input);
+  }
+
+  if (input.every((item): item is string => typeof item === 'string')) {
+    return mapConcurrent(input, REDACTION_CONCURRENCY, (text) => redactText(text));
+  }
+
+  if (tokenPolicy === 'reject') {
+    throw new TokenInputPolicyError();
+  }
+  return input;
+}
+
+/** Decides what happens to a non-text part: the part to forward, or null to drop it. */
+export type OpenAiPartHandler = (part: OpenAiNonTextPart) => Promise<OpenAiNonTextPart | null>;
+
+/** Redacts text parts; other parts go through `handlePart`, which keeps them by default. */
+export async function redactMessageContent(
+  content: OpenAiMessageContent | null,
+  redactText: (text: string) => Promise<string>,
+  handlePart?: OpenAiPartHandler
+): Promise<OpenAiMessageContent | null> {
   if (typeof content === 'string') {
     return redactText(content);
   }
 
   if (Array.isArray(content)) {
-    const next = content.map(async (part) => {
+    const next = await mapConcurrent(content, REDACTION_CONCURRENCY, async (part) => {
       if (part && typeof part === 'object' && part.type === 'text' && typeof part.text === 'string') {
         const redacted = await redactText(part.text);
         return { ...part, text: redacted };
       }
-      return part;
+      return part && handlePart ? handlePart(part as OpenAiNonTextPart) : part;
     });
-    return Promise.all(next);
+    return next.filter((part) => part !== null);
+  }
+
+  return content;
+}
+
+/** A string value or number in JSON source text; object keys are not leaves. */
+interface JsonLeaf {
+  start: number;
+  end: number;
+  /** The decoded string, or the number as written. */
+  text: string;
+}
+
+const JSON_NUMBER = /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+
+/** Scans text already known to be valid JSON. */
+function findJsonLeaves(json: string): JsonLeaf[] {
+  const leaves: JsonLeaf[] = [];
+  let i = 0;
+
+  while (i < json.length) {
+    const char = json[i]!;
+    if (char === '"') {
+      let end = i + 1;
+      while (json[end] !== '"') end += json[end] === '\\' ? 2 : 1;
+      end += 1;
+
+      // A string followed by a colon is an object key
+      let next = end;
+      while (/\s/.test(json[next] ?? '')) next += 1;
+      if (json[next] !== ':') {
+        leaves.push({ start: i, end, text: JSON.parse(json.slice(i, end)) as string });
+      }
+      i = end;
+    } else if (char === '-' || (char >= '0' && char <= '9')) {
+      JSON_NUMBER.lastIndex = i;
+      const number = JSON_NUMBER.exec(json)![0];
+      leaves.push({ start: i, end: i + number.length, text: number });
+      i += number.length;
+    } else {
+      i += 1;
+    }
   }
 
-  return Promise.resolve(content);
+  return leaves;
+}
+
+/**
+ * Redacts every string value and number inside a JSON document so the result
+ * stays valid JSON. Values are rewritten in place in the source text, so
+ * formatting and number precision survive; a number containing PII becomes a
+ * string. Text that does not parse is redacted as plain text.
+ */
+export async function redactJsonText(
+  json: string,
+  redactText: (text: string) => Promise<string>
+): Promise<string> {
+  try {
+    JSON.parse(json);
+  } catch {
+    return redactText(json);
+  }
+
+  const leaves = findJsonLeaves(json).filter((leaf) => leaf.text.trim());
+  const redacted = await mapConcurrent(leaves, REDACTION_CONCURRENCY, (leaf) => redactText(leaf.text));
+
+  let output = '';
+  let cursor = 0;
+  leaves.forEach((leaf, index) => {
+    const value = redacted[index]!;
+    output += json.slice(cursor, leaf.start);
+    output += value === leaf.text ? json.slice(leaf.start, leaf.end) : JSON.stringify(value);
+    cursor = leaf.end;
+  });
+  return output + json.slice(cursor);
+}
+
+export async function redactToolCalls(
+  toolCalls: OpenAiToolCall[],
+  redactText: (text: string) => Promise<string>
+): Promise<OpenAiToolCall[]> {
+  return mapConcurrent(toolCalls, REDACTION_CONCURRENCY, async (toolCall) =>
+    typeof toolCall?.function?.arguments === 'string'
+      ? {
+          ...toolCall,
+          function: {
+            ...toolCall.function,
+            arguments: await redactJsonText(toolCall.function.arguments, redactText),
+          },
+        }
+      : toolCall
+  );
+}
+
+/**
+ * Redacts a message's content, tool call arguments and, for `role: 'tool'`,
+ * JSON tool results value by value.
+ */
+export async function redactOpenAiMessage(
+  message: OpenAiMessage,
+  redactText: (text: string) => Promise<string>,
+  handlePart?: OpenAiPartHandler
+): Promise<OpenAiMessage> {
+  const content = message.role === 'tool' && typeof message.content === 'string'
+    ? await redactJsonText(message.content, redactText)
+    : await redactMessageContent(message.content, redactText, handlePart);
+
+  return {
+    ...message,
+    content,
+    ...(Array.isArray(message.tool_calls)
+      ? { tool_calls: await redactToolCalls(message.tool_calls, redactText) }
+      : {}),
+  };
 }
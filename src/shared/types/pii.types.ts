@@ -26,6 +26,8 @@ export interface PiiEntity {
   start: number;
   end: number;
   confidence: number;
+  /** Name of the recognizer that produced this span. */
+  recognizer: string;
 }
 
 export interface DetectionResult {
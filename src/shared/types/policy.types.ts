@@ -0,0 +1,32 @@
+import type { PiiEntityType } from './pii.types.js';
+
+export const REDACTION_ACTIONS = ['pseudonymize', 'redact', 'mask', 'allow', 'block'] as const;
+
+/**
+ * - pseudonymize: deterministic fake value
+ * - redact: type label such as "[EMAIL]"
+ * - mask: characters replaced with "*"
+ * - allow: left as-is
+ * - block: the whole request is rejected
+ */
+export type RedactionAction = (typeof REDACTION_ACTIONS)[number];
+
+export const REDACTION_MODES = ['enforce', 'shadow'] as const;
+
+/**
+ * - enforce: policy actions are applied to the text
+ * - shadow: detection, risk scoring and auditing run, but text is forwarded unchanged
+ */
+export type RedactionMode = (typeof REDACTION_MODES)[number];
+
+export interface RedactionPolicy {
+  tenantId: string;
+  mode: RedactionMode;
+  defaultAction: RedactionAction;
+  actions: Partial<Record<PiiEntityType, RedactionAction>>;
+  /** Entities scoring below this are ignored. */
+  minConfidence: number;
+  /** Per-type overrides of `minConfidence`. */
+  minConfidenceByType: Partial<Record<PiiEntityType, number>>;
+  failStrategy: 'closed' | 'open';
+}
@@ -0,0 +1,26 @@
+/**
+ * Values redacted at once when a request fans out into many strings. Matches
+ * the default inference batch size, so each micro-batch fills without the
+ * pool's queue filling up.
+ */
+export const REDACTION_CONCURRENCY = 8;
+
+/** Like `Promise.all(items.map(fn))`, with at most `limit` calls in flight; results keep input order. */
+export async function mapConcurrent<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]!, index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}